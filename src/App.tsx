@@ -8,6 +8,11 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import CreatePost from "./pages/CreatePost";
 import PostDetail from "./pages/PostDetail";
+import Dashboard from "./pages/Dashboard";
+import Profile from "./pages/Profile";
+import Author from "./pages/Author";
+import Series from "./pages/Series";
+import Preview from "./pages/Preview";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,7 +28,13 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/create" element={<CreatePost />} />
-            <Route path="/post/:id" element={<PostDetail />} />
+            <Route path="/post/:slug" element={<PostDetail />} />
+            <Route path="/post/:id/edit" element={<CreatePost />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/author/:userId" element={<Author />} />
+            <Route path="/series/:slug" element={<Series />} />
+            <Route path="/preview/:token" element={<Preview />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
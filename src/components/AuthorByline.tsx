@@ -0,0 +1,34 @@
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { getInitials } from '@/lib/authors';
+import { cn } from '@/lib/utils';
+
+interface AuthorBylineProps {
+  name: string;
+  userId?: string;
+  avatarUrl?: string | null;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const AuthorByline = ({ name, userId, avatarUrl, size = 'sm', className }: AuthorBylineProps) => {
+  return (
+    <div className={cn('flex items-center min-w-0', className)}>
+      <Avatar className={cn(size === 'sm' ? 'h-5 w-5 mr-1.5' : 'h-8 w-8 mr-2')}>
+        {avatarUrl && <AvatarImage src={avatarUrl} alt={name} className="object-cover" />}
+        <AvatarFallback className={size === 'sm' ? 'text-[10px]' : 'text-xs'}>
+          {getInitials(name)}
+        </AvatarFallback>
+      </Avatar>
+      {userId ? (
+        <Link to={`/author/${userId}`} className="truncate hover:text-primary transition-colors">
+          {name}
+        </Link>
+      ) : (
+        <span className="truncate">{name}</span>
+      )}
+    </div>
+  );
+};
+
+export default AuthorByline;
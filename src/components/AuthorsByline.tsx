@@ -0,0 +1,64 @@
+import { Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import AuthorByline from '@/components/AuthorByline';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { getInitials, type BylineAuthor } from '@/lib/authors';
+import { cn } from '@/lib/utils';
+
+interface AuthorsBylineProps {
+  authors: BylineAuthor[];
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+// More authors than this are summarised as "A, B and 2 others"
+const MAX_NAMED_AUTHORS = 3;
+
+const AuthorsByline = ({ authors, size = 'sm', className }: AuthorsBylineProps) => {
+  if (authors.length <= 1) {
+    const [author] = authors;
+    return (
+      <AuthorByline
+        name={author?.name || 'Anonymous'}
+        userId={author?.userId}
+        avatarUrl={author?.avatarUrl}
+        size={size}
+        className={className}
+      />
+    );
+  }
+
+  const named = authors.length > MAX_NAMED_AUTHORS ? authors.slice(0, MAX_NAMED_AUTHORS - 1) : authors;
+  const othersCount = authors.length - named.length;
+
+  return (
+    <div className={cn('flex items-center min-w-0', className)}>
+      <div className={cn('flex shrink-0 -space-x-1.5', size === 'sm' ? 'mr-1.5' : 'mr-2')}>
+        {authors.slice(0, MAX_NAMED_AUTHORS).map((author) => (
+          <Avatar
+            key={author.userId}
+            className={cn('ring-2 ring-background', size === 'sm' ? 'h-5 w-5' : 'h-8 w-8')}
+          >
+            {author.avatarUrl && <AvatarImage src={author.avatarUrl} alt={author.name} className="object-cover" />}
+            <AvatarFallback className={size === 'sm' ? 'text-[10px]' : 'text-xs'}>
+              {getInitials(author.name)}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      <span className="truncate">
+        {named.map((author, index) => (
+          <Fragment key={author.userId}>
+            {index > 0 && (index === named.length - 1 && othersCount === 0 ? ' and ' : ', ')}
+            <Link to={`/author/${author.userId}`} className="hover:text-primary transition-colors">
+              {author.name}
+            </Link>
+          </Fragment>
+        ))}
+        {othersCount > 0 && ` and ${othersCount} ${othersCount === 1 ? 'other' : 'others'}`}
+      </span>
+    </div>
+  );
+};
+
+export default AuthorsByline;
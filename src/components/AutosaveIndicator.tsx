@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import type { AutosaveStatus } from '@/hooks/useAutosave';
+import { cn } from '@/lib/utils';
+import { Check, CloudOff, Loader2 } from 'lucide-react';
+import { formatDistanceToNowStrict } from 'date-fns';
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt: Date | null;
+  // False when changes are only kept in this browser, e.g. for published posts
+  savesToServer: boolean;
+  className?: string;
+}
+
+const savedAgo = (date: Date) =>
+  Date.now() - date.getTime() < 5000
+    ? 'just now'
+    : formatDistanceToNowStrict(date, { addSuffix: true });
+
+const AutosaveIndicator = ({ status, lastSavedAt, savesToServer, className }: AutosaveIndicatorProps) => {
+  const [, setNow] = useState(Date.now());
+
+  // Re-render periodically so the relative time stays current
+  useEffect(() => {
+    if (!lastSavedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [lastSavedAt]);
+
+  if (status === 'idle') return null;
+
+  let label: React.ReactNode;
+  if (status === 'pending') {
+    label = 'Unsaved changes';
+  } else if (status === 'saving') {
+    label = (
+      <>
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Saving…
+      </>
+    );
+  } else if (status === 'error') {
+    label = (
+      <>
+        <CloudOff className="h-3 w-3" />
+        Autosave failed, changes kept on this device
+      </>
+    );
+  } else {
+    label = (
+      <>
+        <Check className="h-3 w-3" />
+        {savesToServer ? 'Saved' : 'Saved on this device'} {lastSavedAt && savedAgo(lastSavedAt)}
+      </>
+    );
+  }
+
+  return (
+    <p
+      className={cn(
+        'flex items-center gap-1 text-xs text-muted-foreground',
+        status === 'error' && 'text-destructive',
+        className
+      )}
+      aria-live="polite"
+    >
+      {label}
+    </p>
+  );
+};
+
+export default AutosaveIndicator;
@@ -1,33 +1,53 @@
 import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, User, Heart, MessageCircle } from 'lucide-react';
+import AuthorsByline from '@/components/AuthorsByline';
+import type { BylineAuthor } from '@/lib/authors';
+import { formatReadingTime } from '@/lib/readingStats';
+import { Calendar, Clock, Heart, MessageCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface BlogCardProps {
-  id: string;
+  slug: string;
   title: string;
   excerpt: string;
   featuredImage?: string;
   category?: { name: string; slug: string };
   tags?: string[];
-  authorName: string;
+  authors: BylineAuthor[];
   publishedAt: string;
   likesCount?: number;
   commentsCount?: number;
+  readingTimeMinutes?: number;
+  snippet?: string;
 }
 
+// Search snippets wrap matched terms in STX/ETX control characters (see
+// search_posts), so splitting on them alternates plain text and matches.
+const HIGHLIGHT_MARKERS = new RegExp(`[${String.fromCharCode(2)}${String.fromCharCode(3)}]`);
+
+const renderSnippet = (snippet: string) =>
+  snippet.split(HIGHLIGHT_MARKERS).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-primary/15 text-foreground rounded-sm px-0.5">{part}</mark>
+    ) : (
+      part
+    )
+  );
+
 const BlogCard = ({
-  id,
+  slug,
   title,
   excerpt,
   featuredImage,
   category,
   tags = [],
-  authorName,
+  authors,
   publishedAt,
   likesCount = 0,
-  commentsCount = 0
+  commentsCount = 0,
+  readingTimeMinutes = 0,
+  snippet
 }: BlogCardProps) => {
   return (
     <Card className="overflow-hidden hover:shadow-lg transition-shadow">
@@ -46,13 +66,21 @@ const BlogCard = ({
           {category && (
             <Badge variant="secondary">{category.name}</Badge>
           )}
-          <div className="flex items-center text-sm text-muted-foreground">
-            <Calendar className="h-3 w-3 mr-1" />
-            {formatDistanceToNow(new Date(publishedAt), { addSuffix: true })}
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <div className="flex items-center">
+              <Calendar className="h-3 w-3 mr-1" />
+              {formatDistanceToNow(new Date(publishedAt), { addSuffix: true })}
+            </div>
+            {readingTimeMinutes > 0 && (
+              <div className="flex items-center">
+                <Clock className="h-3 w-3 mr-1" />
+                {formatReadingTime(readingTimeMinutes)}
+              </div>
+            )}
           </div>
         </div>
         
-        <Link to={`/post/${id}`}>
+        <Link to={`/post/${slug}`}>
           <h3 className="text-xl font-semibold hover:text-primary transition-colors line-clamp-2">
             {title}
           </h3>
@@ -60,7 +88,9 @@ const BlogCard = ({
       </CardHeader>
       
       <CardContent>
-        <p className="text-muted-foreground mb-4 line-clamp-3">{excerpt}</p>
+        <p className="text-muted-foreground mb-4 line-clamp-3">
+          {snippet ? renderSnippet(snippet) : excerpt}
+        </p>
         
         {tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-3">
@@ -78,10 +108,7 @@ const BlogCard = ({
         )}
         
         <div className="flex items-center justify-between text-sm text-muted-foreground">
-          <div className="flex items-center">
-            <User className="h-3 w-3 mr-1" />
-            {authorName}
-          </div>
+          <AuthorsByline authors={authors} />
           
           <div className="flex items-center space-x-3">
             <div className="flex items-center">
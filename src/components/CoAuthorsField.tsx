@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import AuthorByline from '@/components/AuthorByline';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { UserPlus, X } from 'lucide-react';
+
+interface CoAuthorsFieldProps {
+  // Unset until the post has been saved
+  postId?: string;
+  isOwner: boolean;
+}
+
+interface PostAuthor {
+  id: string;
+  userId: string;
+  role: string;
+  acceptedAt: string | null;
+  name: string;
+  avatarUrl: string | null;
+}
+
+const CoAuthorsField = ({ postId, isOwner }: CoAuthorsFieldProps) => {
+  const queryClient = useQueryClient();
+  const [invitee, setInvitee] = useState('');
+
+  const { data: authors = [] } = useQuery({
+    queryKey: ['postAuthors', postId, 'edit'],
+    queryFn: async (): Promise<PostAuthor[]> => {
+      const { data: rows, error } = await supabase
+        .from('post_authors')
+        .select('id, user_id, role, accepted_at')
+        .eq('post_id', postId)
+        .order('created_at');
+
+      if (error) throw error;
+
+      const userIds = rows.map((row) => row.user_id);
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('user_id, display_name, avatar_url')
+        .in('user_id', userIds);
+
+      return [...rows]
+        .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'))
+        .map((row) => {
+          const profile = profilesData?.find((p) => p.user_id === row.user_id);
+          return {
+            id: row.id,
+            userId: row.user_id,
+            role: row.role,
+            acceptedAt: row.accepted_at,
+            name: profile?.display_name || 'Anonymous',
+            avatarUrl: profile?.avatar_url || null
+          };
+        });
+    },
+    enabled: !!postId
+  });
+
+  const invalidateAuthors = () => {
+    queryClient.invalidateQueries({ queryKey: ['postAuthors', postId] });
+    queryClient.invalidateQueries({ queryKey: ['post'] });
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { error } = await supabase.rpc('invite_post_coauthor', {
+        target_post: postId,
+        invitee: name
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setInvitee('');
+      invalidateAuthors();
+      // The server doesn't say whether anyone matched, so accounts can't be probed
+      toast({
+        title: 'Invitation sent',
+        description: 'If they have an account, they can accept it from their dashboard.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (author: PostAuthor) => {
+      const { error } = await supabase
+        .from('post_authors')
+        .delete()
+        .eq('id', author.id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidateAuthors,
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const invite = () => {
+    if (invitee.trim()) inviteMutation.mutate(invitee.trim());
+  };
+
+  if (!postId) {
+    return (
+      <div className="space-y-2">
+        <Label>Co-authors</Label>
+        <p className="text-sm text-muted-foreground">Save the post to invite co-authors.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="coauthor-invite">Co-authors</Label>
+      <ul className="space-y-2">
+        {authors.map((author) => (
+          <li key={author.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+            <AuthorByline name={author.name} avatarUrl={author.avatarUrl} />
+            <div className="flex items-center gap-2 shrink-0">
+              <Badge variant={author.acceptedAt ? 'secondary' : 'outline'}>
+                {author.role === 'owner' ? 'Owner' : author.acceptedAt ? 'Co-author' : 'Invited'}
+              </Badge>
+              {isOwner && author.role !== 'owner' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => removeMutation.mutate(author)}
+                  disabled={removeMutation.isPending}
+                  aria-label={`Remove ${author.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {isOwner && (
+        <div className="flex gap-2">
+          <Input
+            id="coauthor-invite"
+            placeholder="Display name or email"
+            value={invitee}
+            onChange={(e) => setInvitee(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), invite())}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={invite}
+            disabled={!invitee.trim() || inviteMutation.isPending}
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoAuthorsField;
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Highlight, type PrismTheme } from 'prism-react-renderer';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { Prism, parseCodeMeta, resolveLanguage } from '@/lib/prism';
+import { cn } from '@/lib/utils';
+import { Check, Copy } from 'lucide-react';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+  meta?: string;
+}
+
+// Token colours come from the .code-block rules in index.css so they follow
+// the light/dark theme instead of being inlined by prism-react-renderer
+const CLASS_ONLY_THEME: PrismTheme = { plain: {}, styles: [] };
+
+const CodeBlock = ({ code, language, meta }: CodeBlockProps) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const source = code.replace(/\n$/, '');
+  const { title, showLineNumbers, highlightedLines } = parseCodeMeta(meta, source.split('\n').length);
+  const prismLanguage = resolveLanguage(language);
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timeout = setTimeout(() => setIsCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [isCopied]);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setIsCopied(true);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Could not copy to the clipboard.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <figure className="code-block not-prose my-6 overflow-hidden rounded-lg border bg-muted/40">
+      <figcaption className="flex items-center justify-between gap-2 border-b bg-muted/60 py-1 pl-4 pr-1 text-xs text-muted-foreground">
+        <span className="truncate font-mono">{title || language || 'text'}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          onClick={copyCode}
+        >
+          {isCopied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          <span className="sr-only">{isCopied ? 'Copied' : 'Copy code'}</span>
+        </Button>
+      </figcaption>
+      <Highlight prism={Prism} code={source} language={prismLanguage || 'text'} theme={CLASS_ONLY_THEME}>
+        {({ className, tokens, getLineProps, getTokenProps }) => (
+          <pre className={cn(className, 'overflow-x-auto py-3 text-sm leading-6')}>
+            <code className="block min-w-max">
+              {tokens.map((line, index) => {
+                const lineProps = getLineProps({ line });
+                const isHighlighted = highlightedLines.has(index + 1);
+                return (
+                  <div
+                    key={index}
+                    {...lineProps}
+                    className={cn(
+                      lineProps.className,
+                      'border-l-2 border-transparent px-4',
+                      isHighlighted && 'border-primary bg-primary/10'
+                    )}
+                  >
+                    {showLineNumbers && (
+                      <span className="mr-4 inline-block w-6 select-none text-right text-muted-foreground">
+                        {index + 1}
+                      </span>
+                    )}
+                    {line.map((token, key) => (
+                      <span key={key} {...getTokenProps({ token })} />
+                    ))}
+                  </div>
+                );
+              })}
+            </code>
+          </pre>
+        )}
+      </Highlight>
+    </figure>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,501 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { User, Reply, ChevronDown, ChevronRight, ArrowLeft, CornerDownRight, Pencil, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const DEFAULT_MAX_DEPTH = 4;
+
+interface CommentNode {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  user_id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  // Set when the comment was deleted but still has replies
+  deleted_at: string | null;
+  profiles: {
+    display_name: string | null;
+  } | null;
+  replies: CommentNode[];
+  replyCount: number;
+}
+
+interface CommentSectionProps {
+  postId: string;
+  postAuthorId: string;
+  maxDepth?: number;
+}
+
+// Thread state and handlers shared by every comment in the tree
+interface CommentThreadActions {
+  replyingTo: string | null;
+  setReplyingTo: (commentId: string | null) => void;
+  submitReply: (parentId: string, content: string) => Promise<unknown>;
+  isReplyPending: boolean;
+  editComment: (commentId: string, content: string) => Promise<unknown>;
+  isEditPending: boolean;
+  canDelete: (comment: CommentNode) => boolean;
+  requestDelete: (comment: CommentNode) => void;
+  continueThread: (commentId: string) => void;
+}
+
+// Comments are edited whenever updated_at moves past created_at; allow for
+// the two timestamps being set a few milliseconds apart on insert.
+const isEdited = (comment: CommentNode) =>
+  new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+// Top-level comments are newest first; replies read top to bottom in the
+// order they were written.
+const buildCommentTree = (comments: Omit<CommentNode, 'replies' | 'replyCount'>[]) => {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach((comment) => {
+    nodes.set(comment.id, { ...comment, replies: [], replyCount: 0 });
+  });
+
+  const roots: CommentNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const countReplies = (node: CommentNode): number => {
+    node.replyCount = node.replies.reduce((total, reply) => total + 1 + countReplies(reply), 0);
+    return node.replyCount;
+  };
+  roots.forEach(countReplies);
+  roots.reverse();
+
+  return { roots, nodes };
+};
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+  initialContent?: string;
+}
+
+const CommentForm = ({
+  placeholder,
+  submitLabel,
+  isPending,
+  onSubmit,
+  onCancel,
+  autoFocus,
+  initialContent = ''
+}: CommentFormProps) => {
+  const [content, setContent] = useState(initialContent);
+
+  const handleSubmit = () => {
+    if (!content.trim()) return;
+    // Errors are reported by the mutation; keep the draft so it can be retried
+    onSubmit(content.trim())
+      .then(() => setContent(''))
+      .catch(() => {});
+  };
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        placeholder={placeholder}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={3}
+        autoFocus={autoFocus}
+      />
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={handleSubmit}
+          disabled={!content.trim() || isPending}
+        >
+          {isPending ? 'Saving...' : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface CommentItemProps {
+  comment: CommentNode;
+  depth: number;
+  maxDepth: number;
+  actions: CommentThreadActions;
+}
+
+const CommentItem = ({ comment, depth, maxDepth, actions }: CommentItemProps) => {
+  const { user } = useAuth();
+  const [collapsed, setCollapsed] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const isDeleted = !!comment.deleted_at;
+  const isOwnComment = user?.id === comment.user_id;
+  const hasReplies = comment.replies.length > 0;
+  const reachedMaxDepth = depth >= maxDepth;
+
+  return (
+    <div className="space-y-3">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <User className="h-4 w-4 mr-2" />
+              {isDeleted ? (
+                <span className="font-medium text-muted-foreground">[deleted]</span>
+              ) : (
+                <Link to={`/author/${comment.user_id}`} className="font-medium hover:text-primary transition-colors">
+                  {comment.profiles?.display_name || 'Anonymous'}
+                </Link>
+              )}
+            </div>
+            <span className="text-sm text-muted-foreground">
+              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+              {!isDeleted && isEdited(comment) && (
+                <span title={`Edited ${formatDistanceToNow(new Date(comment.updated_at), { addSuffix: true })}`}>
+                  {' '}· edited
+                </span>
+              )}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isEditing ? (
+            <CommentForm
+              placeholder="Edit your comment..."
+              submitLabel="Save"
+              isPending={actions.isEditPending}
+              initialContent={comment.content}
+              onSubmit={(content) => actions.editComment(comment.id, content).then(() => setIsEditing(false))}
+              onCancel={() => setIsEditing(false)}
+              autoFocus
+            />
+          ) : isDeleted ? (
+            <p className="italic text-muted-foreground">[deleted]</p>
+          ) : (
+            <p className="leading-relaxed whitespace-pre-wrap">{comment.content}</p>
+          )}
+          <div className="flex items-center gap-2 -ml-3">
+            {user && !isDeleted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => actions.setReplyingTo(actions.replyingTo === comment.id ? null : comment.id)}
+              >
+                <Reply className="h-4 w-4 mr-1" />
+                Reply
+              </Button>
+            )}
+            {isOwnComment && !isDeleted && !isEditing && (
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+            )}
+            {!isDeleted && actions.canDelete(comment) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={() => actions.requestDelete(comment)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            {hasReplies && !reachedMaxDepth && (
+              <Button variant="ghost" size="sm" onClick={() => setCollapsed(!collapsed)}>
+                {collapsed ? (
+                  <ChevronRight className="h-4 w-4 mr-1" />
+                ) : (
+                  <ChevronDown className="h-4 w-4 mr-1" />
+                )}
+                {comment.replyCount} {comment.replyCount === 1 ? 'reply' : 'replies'}
+              </Button>
+            )}
+          </div>
+          {actions.replyingTo === comment.id && (
+            <CommentForm
+              placeholder={`Reply to ${comment.profiles?.display_name || 'Anonymous'}...`}
+              submitLabel="Post Reply"
+              isPending={actions.isReplyPending}
+              onSubmit={(content) => actions.submitReply(comment.id, content)}
+              onCancel={() => actions.setReplyingTo(null)}
+              autoFocus
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {hasReplies && reachedMaxDepth && (
+        <Button
+          variant="link"
+          size="sm"
+          className="ml-4 px-0"
+          onClick={() => actions.continueThread(comment.id)}
+        >
+          <CornerDownRight className="h-4 w-4 mr-1" />
+          Continue this thread ({comment.replyCount} {comment.replyCount === 1 ? 'reply' : 'replies'})
+        </Button>
+      )}
+
+      {hasReplies && !reachedMaxDepth && !collapsed && (
+        <div className="ml-4 md:ml-6 pl-4 border-l space-y-3">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              depth={depth + 1}
+              maxDepth={maxDepth}
+              actions={actions}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CommentSection = ({ postId, postAuthorId, maxDepth = DEFAULT_MAX_DEPTH }: CommentSectionProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null);
+  const [commentToDelete, setCommentToDelete] = useState<CommentNode | null>(null);
+
+  const { data: comments = [] } = useQuery({
+    queryKey: ['comments', postId],
+    queryFn: async () => {
+      const { data: commentsData, error } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Fetch user profiles separately
+      const userIds = [...new Set(commentsData?.map(comment => comment.user_id) || [])];
+      if (userIds.length === 0) return [];
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', userIds);
+
+      if (profilesError) console.warn('Profiles not found');
+
+      // Merge the data
+      const commentsWithProfiles = commentsData?.map(comment => ({
+        ...comment,
+        profiles: profilesData?.find(profile => profile.user_id === comment.user_id) || null
+      })) || [];
+
+      return commentsWithProfiles;
+    }
+  });
+
+  const { roots, nodes } = useMemo(() => buildCommentTree(comments), [comments]);
+  const focusedThread = focusedThreadId ? nodes.get(focusedThreadId) : undefined;
+  // Deleted placeholders stay in the tree for their replies but aren't counted
+  const commentCount = comments.filter((comment) => !comment.deleted_at).length;
+
+  const commentMutation = useMutation({
+    mutationFn: async ({ content, parentId }: { content: string; parentId: string | null }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('comments')
+        .insert([{ post_id: postId, user_id: user.id, content, parent_id: parentId }]);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      setReplyingTo(null);
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+      queryClient.invalidateQueries({ queryKey: ['post', postId] });
+      toast({
+        title: variables.parentId ? 'Reply added!' : 'Comment added!',
+        description: 'Your comment has been posted successfully.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const editMutation = useMutation({
+    mutationFn: async ({ commentId, content }: { commentId: string; content: string }) => {
+      const { error } = await supabase
+        .from('comments')
+        .update({ content })
+        .eq('id', commentId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+      toast({
+        title: 'Comment updated',
+        description: 'Your changes have been saved.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  // Comments with replies are only blanked, so the replies stay in the thread
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => {
+      const { error } = await supabase.rpc('delete_comment', { target_comment: commentId });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, commentId) => {
+      if (focusedThreadId === commentId) setFocusedThreadId(null);
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+      queryClient.invalidateQueries({ queryKey: ['post', postId] });
+      toast({
+        title: 'Comment deleted',
+        description: 'The comment has been removed.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const actions: CommentThreadActions = {
+    replyingTo,
+    setReplyingTo,
+    submitReply: (parentId, content) => commentMutation.mutateAsync({ content, parentId }),
+    isReplyPending: commentMutation.isPending,
+    editComment: (commentId, content) => editMutation.mutateAsync({ commentId, content }),
+    isEditPending: editMutation.isPending,
+    canDelete: (comment) => !!user && (user.id === comment.user_id || user.id === postAuthorId),
+    requestDelete: setCommentToDelete,
+    continueThread: setFocusedThreadId
+  };
+
+  const renderThread = (thread: CommentNode[]) => thread.map((comment) => (
+    <CommentItem
+      key={comment.id}
+      comment={comment}
+      depth={0}
+      maxDepth={maxDepth}
+      actions={actions}
+    />
+  ));
+
+  return (
+    <div className="mt-12 space-y-6">
+      <h2 className="text-2xl font-bold">Comments ({commentCount})</h2>
+
+      {/* Add Comment */}
+      {user ? (
+        <Card>
+          <CardContent className="pt-6">
+            <CommentForm
+              placeholder="Write a comment..."
+              submitLabel="Post Comment"
+              isPending={commentMutation.isPending && !replyingTo}
+              onSubmit={(content) => commentMutation.mutateAsync({ content, parentId: null })}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 text-center">
+            <p className="text-muted-foreground mb-4">
+              Please sign in to leave a comment
+            </p>
+            <Link to="/auth">
+              <Button>Sign In</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Comments List */}
+      {focusedThread ? (
+        <div className="space-y-4">
+          <Button variant="ghost" size="sm" onClick={() => setFocusedThreadId(null)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to all comments
+          </Button>
+          {renderThread([focusedThread])}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {renderThread(roots)}
+        </div>
+      )}
+
+      <AlertDialog open={!!commentToDelete} onOpenChange={(open) => !open && setCommentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {commentToDelete && commentToDelete.replyCount > 0
+                ? 'This comment will be permanently deleted. Its replies stay in the thread under a "[deleted]" placeholder.'
+                : 'This comment will be permanently deleted.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => commentToDelete && deleteMutation.mutate(commentToDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CommentSection;
@@ -0,0 +1,295 @@
+import { useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import MediaLibraryDialog from '@/components/MediaLibraryDialog';
+import EditorToolbar from '@/components/EditorToolbar';
+import SlashCommandMenu from '@/components/SlashCommandMenu';
+import { toast } from '@/hooks/use-toast';
+import { uploadImage, validateImageFile, altTextFromFileName, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { applyFormat, formatForShortcut, type FormatAction, type TextSelection } from '@/lib/markdown';
+import { getCaretCoordinates } from '@/lib/caret';
+import { filterSlashCommands, type SlashCommand } from '@/lib/slashCommands';
+import { cn } from '@/lib/utils';
+import { ImagePlus } from 'lucide-react';
+
+interface ContentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  userId: string;
+  className?: string;
+  // Stretch the textarea to the height of the parent instead of a fixed row count
+  fillHeight?: boolean;
+  // Lets a parent reach the textarea, e.g. to sync scrolling with a preview
+  textareaRef?: React.RefObject<HTMLTextAreaElement>;
+  onScroll?: React.UIEventHandler<HTMLTextAreaElement>;
+}
+
+interface SlashState {
+  // Offset of the "/" that opened the menu
+  start: number;
+  query: string;
+  position: { top: number; left: number };
+}
+
+const SLASH_MENU_WIDTH = 256;
+
+const imageFilesFrom = (files: FileList) =>
+  Array.from(files).filter((file) => file.type.startsWith('image/'));
+
+const ContentEditor = ({
+  value,
+  onChange,
+  userId,
+  className,
+  fillHeight,
+  textareaRef: externalRef,
+  onScroll
+}: ContentEditorProps) => {
+  const internalRef = useRef<HTMLTextAreaElement>(null);
+  const textareaRef = externalRef || internalRef;
+  // Uploads finish after further typing, so edits must apply to the latest text
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [slash, setSlash] = useState<SlashState | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  // A menu closed with Escape stays closed until a new "/" is typed
+  const dismissedSlashRef = useRef<number | null>(null);
+  const slashCommands = slash ? filterSlashCommands(slash.query) : [];
+
+  const applySelection = (next: TextSelection) => {
+    valueRef.current = next.value;
+    onChange(next.value);
+
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  const currentSelection = (): TextSelection => {
+    const current = valueRef.current;
+    return {
+      value: current,
+      start: textareaRef.current?.selectionStart ?? current.length,
+      end: textareaRef.current?.selectionEnd ?? current.length
+    };
+  };
+
+  const handleFormat = (action: FormatAction, selection = currentSelection()) => {
+    if (action === 'image') {
+      setIsLibraryOpen(true);
+      return;
+    }
+    applySelection(applyFormat(action, selection));
+  };
+
+  const insertAtCursor = (text: string) => {
+    const textarea = textareaRef.current;
+    const current = valueRef.current;
+    const start = textarea?.selectionStart ?? current.length;
+    const end = textarea?.selectionEnd ?? current.length;
+    const next = current.slice(0, start) + text + current.slice(end);
+
+    valueRef.current = next;
+    onChange(next);
+
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const replaceText = (search: string, replacement: string) => {
+    const next = valueRef.current.replace(search, replacement);
+    valueRef.current = next;
+    onChange(next);
+  };
+
+  const uploadFiles = (files: File[]) => {
+    files.forEach((file) => {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        toast({ title: `Cannot upload ${file.name}`, description: validationError, variant: 'destructive' });
+        return;
+      }
+
+      const alt = altTextFromFileName(file.name);
+      const placeholder = `![Uploading ${alt}…](${crypto.randomUUID()})`;
+      insertAtCursor(`${placeholder}\n`);
+
+      uploadImage(userId, file)
+        .then((image) => replaceText(placeholder, `![${image.alt}](${image.url})`))
+        .catch((error) => {
+          // The author may have typed straight after the placeholder, so its newline can be gone
+          const withNewline = `${placeholder}\n`;
+          replaceText(valueRef.current.includes(withNewline) ? withNewline : placeholder, '');
+          toast({ title: `Upload failed for ${file.name}`, description: error.message, variant: 'destructive' });
+        });
+    });
+  };
+
+  // Open the slash menu while the caret follows "/" at the start of a line
+  const updateSlash = (textarea: HTMLTextAreaElement) => {
+    const caret = textarea.selectionStart;
+    const lineStart = textarea.value.lastIndexOf('\n', caret - 1) + 1;
+    const match = textarea.selectionEnd === caret &&
+      textarea.value.slice(lineStart, caret).match(/^(\s*)\/([a-z0-9]*)$/i);
+
+    if (!match) {
+      dismissedSlashRef.current = null;
+      setSlash(null);
+      return;
+    }
+
+    const start = lineStart + match[1].length;
+    if (dismissedSlashRef.current === start) return;
+
+    const coordinates = getCaretCoordinates(textarea, start);
+    const wrapperWidth = textarea.parentElement?.clientWidth ?? textarea.clientWidth;
+    if (slash?.start !== start) setSlashIndex(0);
+    setSlash({
+      start,
+      query: match[2],
+      position: {
+        top: coordinates.top - textarea.scrollTop + coordinates.height + 4,
+        left: Math.max(0, Math.min(coordinates.left, wrapperWidth - SLASH_MENU_WIDTH))
+      }
+    });
+  };
+
+  const runSlashCommand = (command: SlashCommand) => {
+    if (!slash) return;
+    const current = valueRef.current;
+    const caret = textareaRef.current?.selectionStart ?? slash.start + slash.query.length + 1;
+    const withoutQuery = current.slice(0, slash.start) + current.slice(caret);
+    setSlash(null);
+
+    if (command.action === 'image') {
+      // The library inserts at the caret, so move it to where the "/" was
+      applySelection({ value: withoutQuery, start: slash.start, end: slash.start });
+      setIsLibraryOpen(true);
+      return;
+    }
+    handleFormat(command.action, { value: withoutQuery, start: slash.start, end: slash.start });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slash && slashCommands.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSlashIndex((slashIndex + step + slashCommands.length) % slashCommands.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        runSlashCommand(slashCommands[slashIndex] || slashCommands[0]);
+        return;
+      }
+    }
+    if (slash && e.key === 'Escape') {
+      e.preventDefault();
+      dismissedSlashRef.current = slash.start;
+      setSlash(null);
+      return;
+    }
+
+    const action = formatForShortcut(e);
+    if (action) {
+      e.preventDefault();
+      handleFormat(action);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = imageFilesFrom(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    uploadFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setIsDragging(false);
+    const files = imageFilesFrom(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    uploadFiles(files);
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-2', fillHeight && 'h-full')}>
+      <EditorToolbar
+        onFormat={handleFormat}
+        onUploadImage={() => fileInputRef.current?.click()}
+        onOpenMediaLibrary={() => setIsLibraryOpen(true)}
+      />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ALLOWED_IMAGE_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          uploadFiles(imageFilesFrom(e.target.files));
+          e.target.value = '';
+        }}
+      />
+      <div className={cn('relative', fillHeight && 'flex-1 min-h-0')}>
+        <Textarea
+          id="content"
+          ref={textareaRef}
+          placeholder="Write your post content here... (Markdown supported, type / to insert blocks, paste or drop images to upload)"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateSlash(e.target);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setSlash(null)}
+          onPaste={handlePaste}
+          onScroll={(e) => {
+            setSlash(null);
+            onScroll?.(e);
+          }}
+          onDrop={handleDrop}
+          onDragOver={(e) => {
+            if (Array.from(e.dataTransfer.types).includes('Files')) {
+              e.preventDefault();
+              setIsDragging(true);
+            }
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          rows={20}
+          className={cn('font-mono', fillHeight && 'h-full resize-none', isDragging && 'ring-2 ring-primary', className)}
+        />
+        {slash && (
+          <SlashCommandMenu
+            commands={slashCommands}
+            activeIndex={slashIndex}
+            onActiveIndexChange={setSlashIndex}
+            onSelect={runSlashCommand}
+            position={slash.position}
+          />
+        )}
+        {isDragging && (
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-md bg-background/80 text-muted-foreground">
+            <ImagePlus className="h-5 w-5 mr-2" />
+            Drop images to upload
+          </div>
+        )}
+      </div>
+      <MediaLibraryDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        onSelect={({ url, alt }) => insertAtCursor(`![${alt}](${url})`)}
+      />
+    </div>
+  );
+};
+
+export default ContentEditor;
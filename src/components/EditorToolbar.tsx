@@ -0,0 +1,118 @@
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { shortcutLabel, type FormatAction } from '@/lib/markdown';
+import {
+  Heading1,
+  Heading2,
+  Heading3,
+  Bold,
+  Italic,
+  Link,
+  Quote,
+  Code,
+  List,
+  ListOrdered,
+  ImageIcon,
+  Table,
+  Upload,
+  Images,
+  type LucideIcon,
+} from 'lucide-react';
+
+interface EditorToolbarProps {
+  onFormat: (action: Exclude<FormatAction, 'image'>) => void;
+  onUploadImage: () => void;
+  onOpenMediaLibrary: () => void;
+}
+
+interface ToolbarItem {
+  action: Exclude<FormatAction, 'image'>;
+  label: string;
+  icon: LucideIcon;
+}
+
+const TOOLBAR_GROUPS: ToolbarItem[][] = [
+  [
+    { action: 'heading1', label: 'Heading 1', icon: Heading1 },
+    { action: 'heading2', label: 'Heading 2', icon: Heading2 },
+    { action: 'heading3', label: 'Heading 3', icon: Heading3 },
+  ],
+  [
+    { action: 'bold', label: 'Bold', icon: Bold },
+    { action: 'italic', label: 'Italic', icon: Italic },
+    { action: 'link', label: 'Link', icon: Link },
+    { action: 'code', label: 'Code', icon: Code },
+  ],
+  [
+    { action: 'quote', label: 'Quote', icon: Quote },
+    { action: 'bulletList', label: 'Bulleted list', icon: List },
+    { action: 'numberedList', label: 'Numbered list', icon: ListOrdered },
+    { action: 'table', label: 'Table', icon: Table },
+  ],
+];
+
+const tooltipFor = (label: string, action: FormatAction) => {
+  const shortcut = shortcutLabel(action);
+  return shortcut ? `${label} (${shortcut})` : label;
+};
+
+const EditorToolbar = ({ onFormat, onUploadImage, onOpenMediaLibrary }: EditorToolbarProps) => (
+  <div className="flex flex-wrap items-center gap-1" role="toolbar" aria-label="Formatting">
+    {TOOLBAR_GROUPS.map((group, index) => (
+      <div key={index} className="flex items-center gap-1">
+        {index > 0 && <Separator orientation="vertical" className="mx-1 h-5" />}
+        {group.map((item) => (
+          <Tooltip key={item.action}>
+            <TooltipTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                // Keep the textarea focused so its selection is preserved
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onFormat(item.action)}
+              >
+                <item.icon className="h-4 w-4" />
+                <span className="sr-only">{item.label}</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{tooltipFor(item.label, item.action)}</TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    ))}
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8">
+              <ImageIcon className="h-4 w-4" />
+              <span className="sr-only">Image</span>
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>{tooltipFor('Image', 'image')}</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={onUploadImage}>
+          <Upload className="h-4 w-4 mr-2" />
+          Upload image…
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={onOpenMediaLibrary}>
+          <Images className="h-4 w-4 mr-2" />
+          Media library
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  </div>
+);
+
+export default EditorToolbar;
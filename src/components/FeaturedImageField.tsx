@@ -0,0 +1,125 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import MediaLibraryDialog from '@/components/MediaLibraryDialog';
+import { toast } from '@/hooks/use-toast';
+import { uploadImage, validateImageFile, ALLOWED_IMAGE_TYPES } from '@/lib/images';
+import { cn } from '@/lib/utils';
+import { Upload, X, Loader2, Images } from 'lucide-react';
+
+interface FeaturedImageFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  userId: string;
+}
+
+const FeaturedImageField = ({ value, onChange, userId }: FeaturedImageFieldProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+
+  const handleFile = async (file: File) => {
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      toast({ title: 'Invalid image', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const { url } = await uploadImage(userId, file);
+      onChange(url);
+    } catch (error) {
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Could not upload image.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) handleFile(file);
+      }}
+      className={cn('rounded-md', isDragging && 'ring-2 ring-primary ring-offset-2')}
+    >
+      <Label htmlFor="featured-image">Featured Image (Optional)</Label>
+      <div className="flex gap-2">
+        <Input
+          id="featured-image"
+          placeholder="https://example.com/image.jpg"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ALLOWED_IMAGE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+        >
+          {isUploading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="h-4 w-4" />
+          )}
+          <span className="sr-only">Upload image</span>
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setIsLibraryOpen(true)}
+        >
+          <Images className="h-4 w-4" />
+          <span className="sr-only">Choose from media library</span>
+        </Button>
+      </div>
+      <MediaLibraryDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        onSelect={({ url }) => onChange(url)}
+      />
+      {value && (
+        <div className="relative mt-2 aspect-video overflow-hidden rounded-md bg-muted">
+          <img src={value} alt="Featured image preview" className="h-full w-full object-cover" />
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className="absolute right-2 top-2 h-7 w-7"
+            onClick={() => onChange('')}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove featured image</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeaturedImageField;
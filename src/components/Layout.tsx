@@ -2,7 +2,7 @@ import { ReactNode } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
-import { PenTool, LogOut, User, Home } from 'lucide-react';
+import { PenTool, LogOut, User, Home, LayoutDashboard } from 'lucide-react';
 
 interface LayoutProps {
   children: ReactNode;
@@ -43,6 +43,12 @@ const Layout = ({ children }: LayoutProps) => {
                       Write
                     </Button>
                   </Link>
+                  <Link to="/dashboard">
+                    <Button variant="ghost" size="sm">
+                      <LayoutDashboard className="h-4 w-4 mr-2" />
+                      Dashboard
+                    </Button>
+                  </Link>
                   <Link to="/profile">
                     <Button variant="ghost" size="sm">
                       <User className="h-4 w-4 mr-2" />
@@ -0,0 +1,102 @@
+import { useRef } from 'react';
+import ContentEditor from '@/components/ContentEditor';
+import MarkdownContent from '@/components/MarkdownContent';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface LivePreviewEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  userId: string;
+  title: string;
+  excerpt: string;
+}
+
+const PREVIEW_DELAY = 300;
+
+// Mirror one pane's scroll position onto the other by relative offset
+const scrollToRatio = (source: HTMLElement, target: HTMLElement) => {
+  const sourceMax = source.scrollHeight - source.clientHeight;
+  const ratio = sourceMax > 0 ? source.scrollTop / sourceMax : 0;
+  return Math.round(ratio * (target.scrollHeight - target.clientHeight));
+};
+
+const LivePreviewEditor = ({ value, onChange, userId, title, excerpt }: LivePreviewEditorProps) => {
+  const isMobile = useIsMobile();
+  const previewContent = useDebouncedValue(value, PREVIEW_DELAY);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // The pane whose next scroll event we caused ourselves and should ignore
+  const ignoreScrollRef = useRef<HTMLElement | null>(null);
+
+  const syncScroll = (source: HTMLElement | null, target: HTMLElement | null) => {
+    if (!source || !target) return;
+    if (ignoreScrollRef.current === source) {
+      ignoreScrollRef.current = null;
+      return;
+    }
+
+    const next = scrollToRatio(source, target);
+    if (Math.abs(target.scrollTop - next) < 1) return;
+    ignoreScrollRef.current = target;
+    target.scrollTop = next;
+  };
+
+  const preview = (
+    <article className="space-y-4">
+      <h1 className="text-3xl font-bold leading-tight">{title || 'Untitled Post'}</h1>
+      {excerpt && <p className="text-lg text-muted-foreground">{excerpt}</p>}
+      {previewContent.trim() ? (
+        <MarkdownContent content={previewContent} />
+      ) : (
+        <p className="text-muted-foreground italic">Nothing to preview yet.</p>
+      )}
+    </article>
+  );
+
+  if (isMobile) {
+    return (
+      <Tabs defaultValue="write">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <TabsContent value="write">
+          <ContentEditor value={value} onChange={onChange} userId={userId} />
+        </TabsContent>
+        <TabsContent value="preview" className="rounded-md border p-4">
+          {preview}
+        </TabsContent>
+      </Tabs>
+    );
+  }
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="h-[70vh] rounded-md border">
+      <ResizablePanel defaultSize={50} minSize={30} className="p-3">
+        <ContentEditor
+          value={value}
+          onChange={onChange}
+          userId={userId}
+          fillHeight
+          textareaRef={textareaRef}
+          onScroll={() => syncScroll(textareaRef.current, previewRef.current)}
+        />
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={50} minSize={30}>
+        <div
+          ref={previewRef}
+          onScroll={() => syncScroll(previewRef.current, textareaRef.current)}
+          className="h-full overflow-y-auto p-6"
+        >
+          {preview}
+        </div>
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+};
+
+export default LivePreviewEditor;
@@ -0,0 +1,101 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import CodeBlock from '@/components/CodeBlock';
+import { toast } from '@/hooks/use-toast';
+import { headingIdFromElement, headingUrl, rehypeHeadingIds, scrollToHeading } from '@/lib/headings';
+import { cn } from '@/lib/utils';
+import { Link2 } from 'lucide-react';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const isExternal = (href?: string) => !!href && /^https?:\/\//i.test(href);
+
+type HeadingTag = 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+
+const copyHeadingLink = async (id: string) => {
+  scrollToHeading(id);
+  try {
+    await navigator.clipboard.writeText(headingUrl(id));
+    toast({ title: 'Link copied' });
+  } catch (error) {
+    toast({ title: 'Error', description: 'Could not copy to the clipboard.', variant: 'destructive' });
+  }
+};
+
+// Headings get their (prefixed) ids from rehypeHeadingIds; the link appears
+// on hover and uses the bare id
+const anchoredHeading = (Tag: HeadingTag): Components[HeadingTag] => ({ node, id, children, className, ...props }) => (
+  <Tag id={id} className={cn('group scroll-mt-6', className)} {...props}>
+    {children}
+    {id && (
+      <a
+        href={`#${headingIdFromElement(id)}`}
+        aria-label="Copy link to this section"
+        className="ml-2 inline-flex align-middle text-muted-foreground no-underline opacity-0 transition-opacity hover:text-foreground focus-visible:opacity-100 group-hover:opacity-100"
+        onClick={(e) => {
+          e.preventDefault();
+          copyHeadingLink(headingIdFromElement(id));
+        }}
+      >
+        <Link2 className="h-4 w-4" />
+      </a>
+    )}
+  </Tag>
+);
+
+const components: Components = {
+  h1: anchoredHeading('h1'),
+  h2: anchoredHeading('h2'),
+  h3: anchoredHeading('h3'),
+  h4: anchoredHeading('h4'),
+  h5: anchoredHeading('h5'),
+  h6: anchoredHeading('h6'),
+  a: ({ node, href, children, ...props }) => (
+    <a
+      href={href}
+      {...(isExternal(href) ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+      {...props}
+    >
+      {children}
+    </a>
+  ),
+  table: ({ node, children, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props}>{children}</table>
+    </div>
+  ),
+  img: ({ node, alt, ...props }) => (
+    <img alt={alt ?? ''} loading="lazy" className="rounded-lg" {...props} />
+  ),
+  // Fenced code arrives as <pre><code class="language-x">; inline code has no <pre>
+  pre: ({ node, children, ...props }) => {
+    const code = node?.children[0];
+    if (code?.type !== 'element' || code.tagName !== 'code') {
+      return <pre {...props}>{children}</pre>;
+    }
+
+    const classNames = (code.properties.className as string[] | undefined) || [];
+    const language = classNames.find((name) => name.startsWith('language-'))?.slice('language-'.length);
+    const text = code.children.map((child) => (child.type === 'text' ? child.value : '')).join('');
+    const meta = (code.data as { meta?: string } | undefined)?.meta;
+
+    return <CodeBlock code={text} language={language} meta={meta} />;
+  },
+};
+
+// Single rendering pipeline for post bodies, so the editor preview and the
+// published page always agree on how Markdown is displayed.
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  return (
+    <div className={cn('prose max-w-none dark:prose-invert', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHeadingIds]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { deleteImage, publicUrlFor } from '@/lib/images';
+import { cn } from '@/lib/utils';
+import { Search, Trash2, ImageIcon } from 'lucide-react';
+import { format } from 'date-fns';
+
+export interface MediaSelection {
+  url: string;
+  alt: string;
+}
+
+interface MediaLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (media: MediaSelection) => void;
+}
+
+interface MediaAsset {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  size_bytes: number | null;
+  width: number | null;
+  height: number | null;
+  alt_text: string | null;
+  created_at: string;
+  url: string;
+  // onlyInRevisions: the post's current version no longer uses it, but a saved revision does
+  usedIn: { id: string; title: string; slug: string; onlyInRevisions: boolean }[];
+}
+
+const formatBytes = (bytes: number | null) => {
+  if (!bytes) return '—';
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const MediaLibraryDialog = ({ open, onOpenChange, onSelect }: MediaLibraryDialogProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [altText, setAltText] = useState('');
+  const [assetToDelete, setAssetToDelete] = useState<MediaAsset | null>(null);
+
+  const { data: assets = [], isLoading } = useQuery({
+    queryKey: ['media', user?.id],
+    queryFn: async () => {
+      const [
+        { data: assetsData, error },
+        { data: postsData, error: postsError },
+        { data: revisionsData, error: revisionsError }
+      ] = await Promise.all([
+        supabase
+          .from('media_assets')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        // Every post the user writes, including ones they co-author
+        supabase
+          .from('posts')
+          .select('id, title, slug, content, featured_image_url, post_authors!inner (user_id)')
+          .eq('post_authors.user_id', user.id)
+          .not('post_authors.accepted_at', 'is', null),
+        // Restoring a revision brings its images back, so those count as in use too
+        supabase
+          .from('post_revisions')
+          .select('post_id, content')
+      ]);
+
+      if (error) throw error;
+      if (postsError) throw postsError;
+      if (revisionsError) throw revisionsError;
+
+      // An image is in use when a post's body, featured image or any of its revisions points at its storage path
+      return (assetsData || []).map((asset) => ({
+        ...asset,
+        url: publicUrlFor(asset.storage_path),
+        usedIn: (postsData || [])
+          .map(post => {
+            const inPost = post.content?.includes(asset.storage_path) ||
+              post.featured_image_url?.includes(asset.storage_path);
+            const inRevisions = (revisionsData || []).some(revision =>
+              revision.post_id === post.id && revision.content?.includes(asset.storage_path)
+            );
+            return inPost || inRevisions
+              ? { id: post.id, title: post.title, slug: post.slug, onlyInRevisions: !inPost }
+              : null;
+          })
+          .filter(Boolean)
+      })) as MediaAsset[];
+    },
+    enabled: open && !!user
+  });
+
+  const selected = assets.find(asset => asset.id === selectedId);
+
+  useEffect(() => {
+    setAltText(selected?.alt_text || '');
+  }, [selected?.id, selected?.alt_text]);
+
+  const visibleAssets = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return assets;
+    return assets.filter(asset =>
+      asset.file_name.toLowerCase().includes(query) ||
+      asset.alt_text?.toLowerCase().includes(query)
+    );
+  }, [assets, searchQuery]);
+
+  const altTextMutation = useMutation({
+    mutationFn: async ({ id, alt }: { id: string; alt: string }) => {
+      const { error } = await supabase
+        .from('media_assets')
+        .update({ alt_text: alt || null })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['media'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (asset: MediaAsset) => deleteImage(asset.storage_path),
+    onSuccess: (_, asset) => {
+      if (selectedId === asset.id) setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ['media'] });
+      toast({
+        title: 'Image deleted',
+        description: `${asset.file_name} has been removed from your library.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleAltTextBlur = () => {
+    if (selected && altText.trim() !== (selected.alt_text || '')) {
+      altTextMutation.mutate({ id: selected.id, alt: altText.trim() });
+    }
+  };
+
+  const handleInsert = () => {
+    if (!selected) return;
+    handleAltTextBlur();
+    onSelect({ url: selected.url, alt: altText.trim() || selected.file_name });
+    onOpenChange(false);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Media library</DialogTitle>
+            <DialogDescription>Reuse images you have already uploaded.</DialogDescription>
+          </DialogHeader>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by file name or alt text..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ScrollArea className="h-[420px] md:col-span-2 rounded-md border">
+              {isLoading ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 p-3">
+                  {[...Array(6)].map((_, i) => (
+                    <div key={i} className="aspect-square bg-muted rounded-md animate-pulse"></div>
+                  ))}
+                </div>
+              ) : visibleAssets.length === 0 ? (
+                <div className="flex h-[400px] flex-col items-center justify-center text-muted-foreground">
+                  <ImageIcon className="h-8 w-8 mb-2" />
+                  {searchQuery ? 'No images match your search.' : 'No uploaded images yet.'}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 p-3">
+                  {visibleAssets.map((asset) => (
+                    <button
+                      key={asset.id}
+                      type="button"
+                      onClick={() => setSelectedId(asset.id)}
+                      onDoubleClick={() => {
+                        onSelect({ url: asset.url, alt: asset.alt_text || asset.file_name });
+                        onOpenChange(false);
+                      }}
+                      className={cn(
+                        'group relative aspect-square overflow-hidden rounded-md bg-muted ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                        selectedId === asset.id && 'ring-2 ring-primary ring-offset-2'
+                      )}
+                    >
+                      <img
+                        src={asset.url}
+                        alt={asset.alt_text || asset.file_name}
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                      {asset.usedIn.length === 0 && (
+                        <Badge variant="secondary" className="absolute left-1 top-1 text-[10px]">
+                          Unused
+                        </Badge>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            <div className="space-y-4 text-sm">
+              {selected ? (
+                <>
+                  <div className="space-y-1">
+                    <p className="font-medium break-all">{selected.file_name}</p>
+                    <p className="text-muted-foreground">
+                      {selected.width && selected.height ? `${selected.width} × ${selected.height}` : 'Unknown size'}
+                      {' · '}
+                      {formatBytes(selected.size_bytes)}
+                    </p>
+                    <p className="text-muted-foreground">
+                      Uploaded {format(new Date(selected.created_at), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="media-alt-text">Alt text</Label>
+                    <Input
+                      id="media-alt-text"
+                      placeholder="Describe the image..."
+                      value={altText}
+                      onChange={(e) => setAltText(e.target.value)}
+                      onBlur={handleAltTextBlur}
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <p className="font-medium">Used in</p>
+                    {selected.usedIn.length === 0 ? (
+                      <p className="text-muted-foreground">Not used in any post.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {selected.usedIn.map((post) => (
+                          <li key={post.id}>
+                            <Link
+                              to={`/post/${post.slug}`}
+                              target="_blank"
+                              className="text-primary hover:underline"
+                            >
+                              {post.title}
+                            </Link>
+                            {post.onlyInRevisions && (
+                              <span className="text-muted-foreground"> (earlier revision)</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    disabled={selected.usedIn.length > 0 || deleteMutation.isPending}
+                    onClick={() => setAssetToDelete(selected)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                  {selected.usedIn.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Images that are in use, including in earlier revisions, cannot be deleted.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">Select an image to see its details.</p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInsert} disabled={!selected}>
+              Insert image
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!assetToDelete} onOpenChange={(isOpen) => !isOpen && setAssetToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this image?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {assetToDelete?.file_name} will be permanently removed from storage. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => assetToDelete && deleteMutation.mutate(assetToDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default MediaLibraryDialog;
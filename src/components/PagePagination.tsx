@@ -0,0 +1,82 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface PagePaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  className?: string;
+}
+
+// Pages to show around the current one, e.g. 1 … 4 5 6 … 10
+const getPageItems = (page: number, pageCount: number): (number | 'ellipsis')[] => {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const items: (number | 'ellipsis')[] = [1];
+  const start = Math.max(2, page - 1);
+  const end = Math.min(pageCount - 1, page + 1);
+
+  if (start > 2) items.push('ellipsis');
+  for (let i = start; i <= end; i++) items.push(i);
+  if (end < pageCount - 1) items.push('ellipsis');
+  items.push(pageCount);
+
+  return items;
+};
+
+const PagePagination = ({ page, pageCount, onPageChange, className }: PagePaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className={className}>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={`?page=${page - 1}`}
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {getPageItems(page, pageCount).map((item, index) => (
+          <PaginationItem key={item === 'ellipsis' ? `ellipsis-${index}` : item}>
+            {item === 'ellipsis' ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={`?page=${item}`} isActive={item === page} onClick={goTo(item)}>
+                {item}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href={`?page=${page + 1}`}
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default PagePagination;
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { Copy, Link2, Trash2 } from 'lucide-react';
+import { addDays, formatDistanceToNow } from 'date-fns';
+
+interface PreviewLinksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+  userId: string;
+}
+
+// Days until a new link stops working; 'never' keeps it until revoked
+const expiryOptions = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'never', label: 'Never' },
+];
+
+const previewUrl = (token: string) => `${window.location.origin}/preview/${token}`;
+
+const copyPreviewLink = async (token: string) => {
+  try {
+    await navigator.clipboard.writeText(previewUrl(token));
+    toast({ title: 'Link copied' });
+  } catch (error) {
+    toast({ title: 'Error', description: 'Could not copy to the clipboard.', variant: 'destructive' });
+  }
+};
+
+const PreviewLinksDialog = ({ open, onOpenChange, postId, userId }: PreviewLinksDialogProps) => {
+  const queryClient = useQueryClient();
+  const [expiry, setExpiry] = useState('7');
+
+  const { data: links = [], isLoading } = useQuery({
+    queryKey: ['previewTokens', postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('post_preview_tokens')
+        .select('id, token, expires_at, created_at')
+        .eq('post_id', postId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open
+  });
+
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from('post_preview_tokens')
+        .insert([{
+          post_id: postId,
+          created_by: userId,
+          expires_at: expiry === 'never' ? null : addDays(new Date(), Number(expiry)).toISOString()
+        }])
+        .select('token')
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['previewTokens', postId] });
+      copyPreviewLink(data.token);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const { error } = await supabase
+        .from('post_preview_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Link revoked',
+        description: 'Anyone using it will no longer see the post.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['previewTokens', postId] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Preview links</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read the latest saved version of this post, without signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="preview-expiry">Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="preview-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createLinkMutation.mutate()} disabled={createLinkMutation.isPending}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Create link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No preview links yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {links.map((link) => {
+              const isExpired = !!link.expires_at && new Date(link.expires_at) <= new Date();
+              return (
+                <li key={link.id} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      value={previewUrl(link.token)}
+                      readOnly
+                      onFocus={(e) => e.target.select()}
+                      className="font-mono text-xs"
+                      aria-label="Preview link"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copyPreviewLink(link.token)}
+                      disabled={isExpired}
+                      aria-label="Copy link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => revokeLinkMutation.mutate(link.id)}
+                      disabled={revokeLinkMutation.isPending}
+                      aria-label="Revoke link"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {isExpired
+                      ? 'Expired'
+                      : link.expires_at
+                        ? `Expires ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`
+                        : 'Never expires'}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PreviewLinksDialog;
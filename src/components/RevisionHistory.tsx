@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { diffLines, type Change } from 'diff';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { History, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  user_id: string;
+  title: string;
+  excerpt: string | null;
+  content: string | null;
+  tags: string[] | null;
+  category_id: string | null;
+  created_at: string;
+  authorName: string;
+}
+
+interface RevisionHistoryProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (revision: PostRevision) => void;
+}
+
+// Unchanged lines kept around each change; longer runs are collapsed
+const CONTEXT_LINES = 3;
+
+const splitLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+const DiffBlock = ({ changes }: { changes: Change[] }) => {
+  if (!changes.some(change => change.added || change.removed)) {
+    return <p className="text-sm text-muted-foreground">No changes.</p>;
+  }
+
+  return (
+    <pre className="overflow-x-auto rounded-md border bg-muted/30 py-2 text-xs font-mono">
+      {changes.map((change, i) => {
+        const lines = splitLines(change.value);
+
+        if (change.added || change.removed) {
+          return lines.map((line, j) => (
+            <div
+              key={`${i}-${j}`}
+              className={cn(
+                'px-3 whitespace-pre-wrap break-words',
+                change.added
+                  ? 'bg-green-500/15 text-green-900 dark:text-green-200'
+                  : 'bg-red-500/15 text-red-900 dark:text-red-200 line-through decoration-red-500/40'
+              )}
+            >
+              {change.added ? '+ ' : '- '}{line}
+            </div>
+          ));
+        }
+
+        const isFirst = i === 0;
+        const isLast = i === changes.length - 1;
+        const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES);
+        const tail = isLast ? [] : lines.slice(-CONTEXT_LINES);
+        const hidden = lines.length - head.length - tail.length;
+        const visible = hidden > 0 ? { head, tail } : { head: lines, tail: [] };
+
+        return (
+          <div key={i} className="text-muted-foreground">
+            {visible.head.map((line, j) => (
+              <div key={j} className="px-3 whitespace-pre-wrap break-words">{'  '}{line}</div>
+            ))}
+            {hidden > 0 && (
+              <div className="px-3 py-1 text-center italic">
+                {hidden} unchanged line{hidden === 1 ? '' : 's'}
+              </div>
+            )}
+            {visible.tail.map((line, j) => (
+              <div key={`t-${j}`} className="px-3 whitespace-pre-wrap break-words">{'  '}{line}</div>
+            ))}
+          </div>
+        );
+      })}
+    </pre>
+  );
+};
+
+const RevisionHistory = ({ postId, open, onOpenChange, onRestore }: RevisionHistoryProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['revisions', postId],
+    queryFn: async () => {
+      const { data: revisionsData, error } = await supabase
+        .from('post_revisions')
+        .select('*')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set(revisionsData?.map(revision => revision.user_id) || [])];
+      if (userIds.length === 0) return [];
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, display_name')
+        .in('user_id', userIds);
+
+      if (profilesError) console.warn('Profiles not found');
+
+      return (revisionsData || []).map(revision => ({
+        ...revision,
+        authorName: profilesData?.find(profile => profile.user_id === revision.user_id)?.display_name || 'Anonymous'
+      })) as PostRevision[];
+    },
+    enabled: open
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  // Default to the newest revision compared with the one before it
+  useEffect(() => {
+    if (!open || revisions.length === 0) return;
+    if (!selectedId || !revisions.some(revision => revision.id === selectedId)) {
+      setSelectedId(revisions[0].id);
+    }
+  }, [open, revisions, selectedId]);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const base = revisions.find(revision => revision.id === baseId) || revisions[selectedIndex + 1];
+
+  useEffect(() => {
+    setBaseId(null);
+  }, [selectedId]);
+
+  const fieldChanges = useMemo(() => {
+    if (!selected || !base) return [];
+    const categoryName = (id: string | null) =>
+      categories.find(category => category.id === id)?.name || 'None';
+
+    return [
+      { label: 'Title', before: base.title, after: selected.title },
+      { label: 'Excerpt', before: base.excerpt || '', after: selected.excerpt || '' },
+      { label: 'Category', before: categoryName(base.category_id), after: categoryName(selected.category_id) },
+      { label: 'Tags', before: (base.tags || []).join(', '), after: (selected.tags || []).join(', ') }
+    ].filter(change => change.before !== change.after);
+  }, [selected, base, categories]);
+
+  const contentChanges = useMemo(
+    () => selected && base ? diffLines(base.content || '', selected.content || '') : [],
+    [selected, base]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Revision history</DialogTitle>
+          <DialogDescription>A snapshot is kept every time the post is saved.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <ScrollArea className="h-[480px] rounded-md border">
+            {isLoading ? (
+              <div className="space-y-2 p-3">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-12 bg-muted rounded animate-pulse"></div>
+                ))}
+              </div>
+            ) : revisions.length === 0 ? (
+              <div className="flex h-[460px] flex-col items-center justify-center text-sm text-muted-foreground">
+                <History className="h-8 w-8 mb-2" />
+                No revisions yet.
+              </div>
+            ) : (
+              <ul className="p-2 space-y-1">
+                {revisions.map((revision, index) => (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        'w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted',
+                        revision.id === selectedId && 'bg-muted'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}
+                        </span>
+                        {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {revision.authorName} · {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          <div className="md:col-span-2 space-y-4">
+            {selected ? (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Compare with</span>
+                    <Select
+                      value={base?.id || ''}
+                      onValueChange={setBaseId}
+                      disabled={revisions.length < 2}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="No earlier revision" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions
+                          .filter(revision => revision.id !== selected.id)
+                          .map((revision) => (
+                            <SelectItem key={revision.id} value={revision.id}>
+                              {format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      onRestore(selected);
+                      onOpenChange(false);
+                    }}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore this revision
+                  </Button>
+                </div>
+
+                <ScrollArea className="h-[420px] pr-3">
+                  {base ? (
+                    <div className="space-y-4">
+                      {fieldChanges.length > 0 && (
+                        <dl className="space-y-2 text-sm">
+                          {fieldChanges.map((change) => (
+                            <div key={change.label}>
+                              <dt className="font-medium">{change.label}</dt>
+                              <dd className="text-red-700 dark:text-red-300 line-through">{change.before || '—'}</dd>
+                              <dd className="text-green-700 dark:text-green-300">{change.after || '—'}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">Content</p>
+                        <DiffBlock changes={contentChanges} />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="space-y-2 text-sm">
+                      <p className="text-muted-foreground">This is the first revision of the post.</p>
+                      <p className="font-medium">{selected.title}</p>
+                      <pre className="whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-xs font-mono">
+                        {selected.content}
+                      </pre>
+                    </div>
+                  )}
+                </ScrollArea>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Select a revision to see what changed.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock } from 'lucide-react';
+import { format, startOfToday } from 'date-fns';
+
+interface SchedulePickerProps {
+  value: Date | null;
+  onSchedule: (date: Date) => void;
+  disabled?: boolean;
+}
+
+const combine = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
+
+const SchedulePicker = ({ value, onSchedule, disabled }: SchedulePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [day, setDay] = useState<Date | undefined>(value || undefined);
+  const [time, setTime] = useState(value ? format(value, 'HH:mm') : '09:00');
+
+  // Start from the current schedule each time the picker opens
+  useEffect(() => {
+    if (!open) return;
+    setDay(value || undefined);
+    setTime(value ? format(value, 'HH:mm') : '09:00');
+  }, [open, value]);
+
+  const scheduledAt = day ? combine(day, time) : null;
+  const isInPast = !!scheduledAt && scheduledAt.getTime() <= Date.now();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <CalendarClock className="h-4 w-4 mr-2" />
+          {value ? 'Reschedule' : 'Schedule'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={day}
+          onSelect={setDay}
+          disabled={{ before: startOfToday() }}
+          initialFocus
+        />
+        <div className="space-y-3 border-t p-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="schedule-time" className="shrink-0">Time</Label>
+            <Input
+              id="schedule-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {!scheduledAt
+              ? 'Pick a day to publish on.'
+              : isInPast
+                ? 'Choose a time in the future.'
+                : `Publishes ${format(scheduledAt, 'PPP')} at ${format(scheduledAt, 'p')}`}
+          </p>
+          <Button
+            className="w-full"
+            disabled={!scheduledAt || isInPast}
+            onClick={() => {
+              onSchedule(scheduledAt);
+              setOpen(false);
+            }}
+          >
+            {value ? 'Update schedule' : 'Schedule post'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SchedulePicker;
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { findAvailableSeriesSlug, type Series } from '@/lib/series';
+
+interface SeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  // Edits this series; creates a new one when omitted
+  series?: Series;
+  onSaved?: (series: Series) => void;
+}
+
+// The slug is chosen once on creation so links to the series keep working
+const SeriesDialog = ({ open, onOpenChange, userId, series, onSaved }: SeriesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(series?.title || '');
+    setDescription(series?.description || '');
+  }, [open, series]);
+
+  const saveSeriesMutation = useMutation({
+    mutationFn: async () => {
+      const fields = { title: title.trim(), description: description.trim() || null };
+
+      if (series) {
+        const { data, error } = await supabase
+          .from('series')
+          .update(fields)
+          .eq('id', series.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
+
+      const { data, error } = await supabase
+        .from('series')
+        .insert([{ ...fields, user_id: userId, slug: await findAvailableSeriesSlug(fields.title) }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['series'] });
+      toast({ title: series ? 'Series updated' : 'Series created' });
+      onSaved?.(data);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveSeriesMutation.mutate();
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>{series ? 'Edit series' : 'New series'}</DialogTitle>
+            <DialogDescription>
+              A series groups related posts, like the parts of a tutorial, in reading order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="series-title">Title</Label>
+            <Input
+              id="series-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Building a blog with React"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="series-description">Description (Optional)</Label>
+            <Textarea
+              id="series-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What readers will get out of the series..."
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!title.trim() || saveSeriesMutation.isPending}>
+              {saveSeriesMutation.isPending ? 'Saving...' : series ? 'Save changes' : 'Create series'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeriesDialog;
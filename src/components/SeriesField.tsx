@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import SeriesDialog from '@/components/SeriesDialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchSeriesParts } from '@/lib/series';
+import { Plus } from 'lucide-react';
+
+export interface SeriesAssignment {
+  // Empty when the post is not part of a series
+  seriesId: string;
+  // Null places the post at the end of the series
+  position: number | null;
+}
+
+interface SeriesFieldProps {
+  value: SeriesAssignment;
+  onChange: (value: SeriesAssignment) => void;
+  userId: string;
+  postId?: string;
+}
+
+const NO_SERIES = 'none';
+const END_POSITION = 'end';
+
+const SeriesField = ({ value, onChange, userId, postId }: SeriesFieldProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: seriesList = [] } = useQuery({
+    queryKey: ['series', 'mine', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('series')
+        .select('*')
+        .eq('user_id', userId)
+        .order('title');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: parts = [] } = useQuery({
+    queryKey: ['seriesPosts', value.seriesId, 'edit'],
+    queryFn: () => fetchSeriesParts(value.seriesId, false),
+    enabled: !!value.seriesId
+  });
+
+  // Positions are offered among the other parts, which is where this post will go.
+  // The database keeps parts numbered 1..n, so the nth other part is position n.
+  const otherParts = parts.filter((part) => part.id !== postId);
+  const positionValue = value.position && value.position <= otherParts.length
+    ? String(value.position)
+    : END_POSITION;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="series">Series (Optional)</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value.seriesId || NO_SERIES}
+          onValueChange={(seriesId) => onChange({ seriesId: seriesId === NO_SERIES ? '' : seriesId, position: null })}
+        >
+          <SelectTrigger id="series">
+            <SelectValue placeholder="Not part of a series" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SERIES}>Not part of a series</SelectItem>
+            {seriesList.map((series) => (
+              <SelectItem key={series.id} value={series.id}>
+                {series.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New series
+        </Button>
+      </div>
+
+      {value.seriesId && (
+        <Select
+          value={positionValue}
+          onValueChange={(position) => onChange({
+            ...value,
+            position: position === END_POSITION ? null : Number(position)
+          })}
+        >
+          <SelectTrigger aria-label="Position in series">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {otherParts.map((part, index) => (
+              <SelectItem key={part.id} value={String(index + 1)}>
+                Part {index + 1}, before "{part.title}"{part.status !== 'published' && ` (${part.status})`}
+              </SelectItem>
+            ))}
+            <SelectItem value={END_POSITION}>
+              Part {otherParts.length + 1}, at the end
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      <SeriesDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        userId={userId}
+        onSaved={(series) => onChange({ seriesId: series.id, position: null })}
+      />
+    </div>
+  );
+};
+
+export default SeriesField;
@@ -0,0 +1,117 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { fetchSeriesParts } from '@/lib/series';
+import { ArrowLeft, ArrowRight, Layers } from 'lucide-react';
+
+interface SeriesNavigationProps {
+  seriesId: string;
+  postId: string;
+}
+
+const SeriesNavigation = ({ seriesId, postId }: SeriesNavigationProps) => {
+  const { data: series } = useQuery({
+    queryKey: ['series', seriesId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('series')
+        .select('*')
+        .eq('id', seriesId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: parts = [] } = useQuery({
+    queryKey: ['seriesPosts', seriesId],
+    queryFn: () => fetchSeriesParts(seriesId, true)
+  });
+
+  if (!series || parts.length === 0) return null;
+
+  // Unpublished posts aren't listed, so a draft being previewed has no place yet
+  const index = parts.findIndex((part) => part.id === postId);
+  const previous = index > 0 ? parts[index - 1] : null;
+  const next = index >= 0 && index < parts.length - 1 ? parts[index + 1] : null;
+
+  return (
+    <Card className="bg-muted/30">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="flex items-center text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              <Layers className="h-3 w-3 mr-1" />
+              Series
+            </p>
+            <Link to={`/series/${series.slug}`} className="font-semibold hover:text-primary transition-colors">
+              {series.title}
+            </Link>
+          </div>
+          {index >= 0 && (
+            <span className="shrink-0 text-sm text-muted-foreground">
+              Part {index + 1} of {parts.length}
+            </span>
+          )}
+        </div>
+
+        {index >= 0 && (
+          <Progress
+            value={((index + 1) / parts.length) * 100}
+            className="h-1.5"
+            aria-label={`Part ${index + 1} of ${parts.length}`}
+          />
+        )}
+
+        <ol className="space-y-1 text-sm">
+          {parts.map((part, partIndex) => (
+            <li key={part.id} className="flex gap-2">
+              <span className="w-5 shrink-0 text-right text-muted-foreground">{partIndex + 1}.</span>
+              {part.id === postId ? (
+                <span className="font-medium" aria-current="page">{part.title}</span>
+              ) : (
+                <Link to={`/post/${part.slug}`} className="text-muted-foreground hover:text-foreground transition-colors">
+                  {part.title}
+                </Link>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        {(previous || next) && (
+          <div className="grid grid-cols-2 gap-4 border-t pt-4">
+            {previous ? (
+              <Link to={`/post/${previous.slug}`} className="group min-w-0">
+                <span className="flex items-center text-xs text-muted-foreground">
+                  <ArrowLeft className="h-3 w-3 mr-1" />
+                  Previous
+                </span>
+                <span className="block truncate text-sm font-medium group-hover:text-primary transition-colors">
+                  {previous.title}
+                </span>
+              </Link>
+            ) : (
+              <span />
+            )}
+            {next && (
+              <Link to={`/post/${next.slug}`} className="group min-w-0 text-right">
+                <span className="flex items-center justify-end text-xs text-muted-foreground">
+                  Next
+                  <ArrowRight className="h-3 w-3 ml-1" />
+                </span>
+                <span className="block truncate text-sm font-medium group-hover:text-primary transition-colors">
+                  {next.title}
+                </span>
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeriesNavigation;
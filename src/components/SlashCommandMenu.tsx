@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import type { SlashCommand } from '@/lib/slashCommands';
+
+interface SlashCommandMenuProps {
+  commands: SlashCommand[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onSelect: (command: SlashCommand) => void;
+  position: { top: number; left: number };
+}
+
+// Keyboard navigation is driven by the editor's textarea, which keeps focus
+// while the menu is open, so filtering and the active item are controlled here.
+const SlashCommandMenu = ({ commands, activeIndex, onActiveIndexChange, onSelect, position }: SlashCommandMenuProps) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    menuRef.current
+      ?.querySelector('[cmdk-item][data-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex, commands]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="absolute z-50 w-64 rounded-md border bg-popover shadow-md"
+      style={{ top: position.top, left: position.left }}
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <Command
+        shouldFilter={false}
+        value={commands[activeIndex]?.action || ''}
+        onValueChange={(value) => onActiveIndexChange(commands.findIndex(command => command.action === value))}
+      >
+        <CommandList className="max-h-64">
+          <CommandEmpty>No matching blocks.</CommandEmpty>
+          <CommandGroup heading="Insert block">
+            {commands.map((command) => (
+              <CommandItem
+                key={command.action}
+                value={command.action}
+                onSelect={() => onSelect(command)}
+              >
+                <command.icon className="mr-2 h-4 w-4" />
+                <div>
+                  <p className="text-sm">{command.label}</p>
+                  <p className="text-xs text-muted-foreground">{command.description}</p>
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </div>
+  );
+};
+
+export default SlashCommandMenu;
@@ -0,0 +1,86 @@
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { isSlugAvailable, slugify, MAX_SLUG_LENGTH, SLUG_PATTERN } from '@/lib/slugs';
+import { Check, Loader2, AlertCircle } from 'lucide-react';
+
+interface SlugFieldProps {
+  // Custom slug; empty means it is derived from the title
+  value: string;
+  title: string;
+  onChange: (value: string) => void;
+  postId?: string;
+  // Slug the post is currently published under, if any
+  publishedSlug?: string;
+}
+
+const SlugField = ({ value, title, onChange, postId, publishedSlug }: SlugFieldProps) => {
+  const slug = value || slugify(title);
+  const isValid = SLUG_PATTERN.test(slug);
+  const debouncedSlug = useDebouncedValue(slug, 400);
+
+  const { data: isAvailable, isFetching } = useQuery({
+    queryKey: ['slugAvailable', debouncedSlug, postId],
+    queryFn: () => isSlugAvailable(debouncedSlug, postId),
+    enabled: SLUG_PATTERN.test(debouncedSlug)
+  });
+
+  const isChecking = isFetching || debouncedSlug !== slug;
+
+  let status: React.ReactNode = null;
+  if (!slug) {
+    status = 'Add a title to generate the URL.';
+  } else if (!isValid) {
+    status = (
+      <span className="flex items-center gap-1 text-destructive">
+        <AlertCircle className="h-3 w-3" />
+        Use lowercase letters, numbers and single hyphens.
+      </span>
+    );
+  } else if (isChecking) {
+    status = (
+      <span className="flex items-center gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking availability…
+      </span>
+    );
+  } else if (isAvailable === false) {
+    status = value ? (
+      <span className="flex items-center gap-1 text-destructive">
+        <AlertCircle className="h-3 w-3" />
+        This URL is already taken.
+      </span>
+    ) : (
+      'This URL is taken, so a number will be added to keep it unique.'
+    );
+  } else if (isAvailable) {
+    status = (
+      <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+        <Check className="h-3 w-3" />
+        Available
+        {publishedSlug && publishedSlug !== slug && ' · the old URL will redirect here'}
+      </span>
+    );
+  }
+
+  return (
+    <div>
+      <Label htmlFor="slug">URL</Label>
+      <div className="flex items-center rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        <span className="pl-3 text-sm text-muted-foreground">/post/</span>
+        <Input
+          id="slug"
+          value={slug}
+          maxLength={MAX_SLUG_LENGTH}
+          onChange={(e) => onChange(e.target.value.toLowerCase().replace(/[^a-z0-9-]+/g, '-'))}
+          onBlur={() => value && onChange(slugify(value))}
+          className="border-0 pl-0.5 focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      <div className="mt-1 text-xs text-muted-foreground">{status}</div>
+    </div>
+  );
+};
+
+export default SlugField;
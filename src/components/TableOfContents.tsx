@@ -0,0 +1,43 @@
+import { scrollToHeading, type Heading } from '@/lib/headings';
+import { cn } from '@/lib/utils';
+
+interface TableOfContentsProps {
+  headings: Heading[];
+  activeId: string | null;
+  onNavigate?: (id: string) => void;
+  className?: string;
+}
+
+const TableOfContents = ({ headings, activeId, onNavigate, className }: TableOfContentsProps) => {
+  // Indent relative to the shallowest heading, so posts starting at ## aren't shifted
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <nav aria-label="Table of contents" className={className}>
+      <ul className="space-y-1 border-l text-sm">
+        {headings.map((heading) => (
+          <li key={heading.id}>
+            <a
+              href={`#${heading.id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                scrollToHeading(heading.id);
+                onNavigate?.(heading.id);
+              }}
+              aria-current={heading.id === activeId ? 'location' : undefined}
+              className={cn(
+                '-ml-px block border-l-2 border-transparent py-1 pr-2 text-muted-foreground transition-colors hover:text-foreground',
+                heading.id === activeId && 'border-primary font-medium text-foreground'
+              )}
+              style={{ paddingLeft: `${0.75 + (heading.level - topLevel) * 0.75}rem` }}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
+
+export default TableOfContents;
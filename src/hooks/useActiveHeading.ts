@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { headingElementId, headingIdFromElement } from '@/lib/headings';
+
+// Distance from the top of the viewport at which a heading becomes current
+const ACTIVE_OFFSET = 96;
+
+// Id of the section currently being read: the last heading scrolled past the
+// top of the viewport, or the first heading before any have been
+export const useActiveHeading = (ids: string[]) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const elements = ids
+      .map((id) => document.getElementById(headingElementId(id)))
+      .filter((element): element is HTMLElement => !!element);
+    if (elements.length === 0) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const passed = elements.filter((element) => element.getBoundingClientRect().top <= ACTIVE_OFFSET);
+        const atBottom = window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2;
+        // Short final sections never reach the top, so the page end selects the last heading
+        const current = atBottom ? elements[elements.length - 1] : passed[passed.length - 1] ?? elements[0];
+        setActiveId(headingIdFromElement(current.id));
+      });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [ids]);
+
+  return activeId;
+};
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+export interface StoredDraft<T> {
+  value: T;
+  savedAt: string;
+}
+
+interface AutosaveOptions<T> {
+  // localStorage key holding the crash-recovery copy
+  storageKey: string;
+  value: T;
+  enabled: boolean;
+  // Persists the value to the server; omitted when only local saves apply
+  saveRemote?: (value: T) => Promise<void>;
+  localDelay?: number;
+  remoteDelay?: number;
+}
+
+export const readStoredDraft = <T,>(storageKey: string): StoredDraft<T> | null => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) as StoredDraft<T> : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearStoredDraft = (storageKey: string) => {
+  localStorage.removeItem(storageKey);
+};
+
+// Debounced two-stage autosave: every change is written to localStorage
+// quickly, and to the server after a longer pause. Changes are measured
+// against the value present when autosave was enabled, so loading a post
+// does not count as an edit.
+export const useAutosave = <T,>({
+  storageKey,
+  value,
+  enabled,
+  saveRemote,
+  localDelay = 1000,
+  remoteDelay = 5000
+}: AutosaveOptions<T>) => {
+  const serialized = JSON.stringify(value);
+  const latestRef = useRef(serialized);
+  latestRef.current = serialized;
+  const baselineRef = useRef<string | null>(null);
+  const saveRemoteRef = useRef(saveRemote);
+  saveRemoteRef.current = saveRemote;
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [lastLocalSaveAt, setLastLocalSaveAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      baselineRef.current = null;
+    } else if (baselineRef.current === null) {
+      baselineRef.current = serialized;
+    }
+  }, [enabled, serialized]);
+
+  const isDirty = enabled && baselineRef.current !== null && serialized !== baselineRef.current;
+  const hasRemote = !!saveRemote;
+
+  useEffect(() => {
+    if (!isDirty) return;
+    setStatus('pending');
+
+    const timer = setTimeout(() => {
+      const draft: StoredDraft<T> = { value: JSON.parse(serialized), savedAt: new Date().toISOString() };
+      localStorage.setItem(storageKey, JSON.stringify(draft));
+      setLastLocalSaveAt(new Date());
+      if (!saveRemoteRef.current) setStatus('saved');
+    }, localDelay);
+
+    return () => clearTimeout(timer);
+  }, [isDirty, serialized, storageKey, localDelay]);
+
+  useEffect(() => {
+    if (!isDirty || !hasRemote) return;
+
+    const timer = setTimeout(() => {
+      // Run saves one at a time so a slow request cannot race a newer one. A
+      // tick that fires while a save is in flight waits for it, then saves
+      // the latest value, or nothing if that save already covered it.
+      queueRef.current = queueRef.current.then(async () => {
+        const save = saveRemoteRef.current;
+        const current = latestRef.current;
+        if (!save || current === baselineRef.current) return;
+        setStatus('saving');
+        try {
+          await save(JSON.parse(current));
+          // The local copy is only needed while it holds changes the server lacks
+          const stored = readStoredDraft<T>(storageKey);
+          if (stored && JSON.stringify(stored.value) === current) {
+            clearStoredDraft(storageKey);
+          }
+          baselineRef.current = current;
+          setLastSavedAt(new Date());
+          setStatus('saved');
+        } catch {
+          setStatus('error');
+        }
+      });
+    }, remoteDelay);
+
+    return () => clearTimeout(timer);
+  }, [isDirty, serialized, storageKey, remoteDelay, hasRemote]);
+
+  // Forget pending changes, e.g. after an explicit save or discarding a draft
+  const reset = useCallback((nextValue?: T) => {
+    clearStoredDraft(storageKey);
+    baselineRef.current = nextValue === undefined ? serialized : JSON.stringify(nextValue);
+    setStatus('idle');
+  }, [storageKey, serialized]);
+
+  return { status, lastSavedAt, lastLocalSaveAt, isDirty, reset };
+};
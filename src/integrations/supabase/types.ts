@@ -42,7 +42,9 @@ export type Database = {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
           id: string
+          parent_id: string | null
           post_id: string
           updated_at: string
           user_id: string
@@ -50,7 +52,9 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id: string
           updated_at?: string
           user_id: string
@@ -58,12 +62,21 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -102,51 +115,273 @@ export type Database = {
           },
         ]
       }
+      media_assets: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          file_name: string
+          height: number | null
+          id: string
+          mime_type: string | null
+          size_bytes: number | null
+          storage_path: string
+          updated_at: string
+          user_id: string
+          width: number | null
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          file_name: string
+          height?: number | null
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path: string
+          updated_at?: string
+          user_id: string
+          width?: number | null
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          file_name?: string
+          height?: number | null
+          id?: string
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+          width?: number | null
+        }
+        Relationships: []
+      }
+      post_authors: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          id: string
+          invited_by: string | null
+          post_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          post_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          post_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_authors_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_preview_tokens: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          post_id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          post_id: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          post_id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_preview_tokens_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_revisions: {
+        Row: {
+          category_id: string | null
+          content: string | null
+          created_at: string
+          excerpt: string | null
+          id: string
+          post_id: string
+          tags: string[] | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          category_id?: string | null
+          content?: string | null
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          post_id: string
+          tags?: string[] | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          category_id?: string | null
+          content?: string | null
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          post_id?: string
+          tags?: string[] | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_revisions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_revisions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_slug_history: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_slug_history_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
           category_id: string | null
+          comments_count: number
           content: string | null
           created_at: string
           excerpt: string | null
+          excerpt_generated: boolean
           featured_image_url: string | null
           id: string
+          likes_count: number
           published_at: string | null
+          reading_time_minutes: number
+          search_vector: unknown | null
+          series_id: string | null
+          series_position: number | null
           slug: string
           status: string
           tags: string[] | null
           title: string
           updated_at: string
           user_id: string
+          word_count: number
         }
         Insert: {
           category_id?: string | null
+          comments_count?: number
           content?: string | null
           created_at?: string
           excerpt?: string | null
+          excerpt_generated?: boolean
           featured_image_url?: string | null
           id?: string
+          likes_count?: number
           published_at?: string | null
+          reading_time_minutes?: number
+          search_vector?: unknown | null
+          series_id?: string | null
+          series_position?: number | null
           slug: string
           status?: string
           tags?: string[] | null
           title: string
           updated_at?: string
           user_id: string
+          word_count?: number
         }
         Update: {
           category_id?: string | null
+          comments_count?: number
           content?: string | null
           created_at?: string
           excerpt?: string | null
+          excerpt_generated?: boolean
           featured_image_url?: string | null
           id?: string
+          likes_count?: number
           published_at?: string | null
+          reading_time_minutes?: number
+          search_vector?: unknown | null
+          series_id?: string | null
+          series_position?: number | null
           slug?: string
           status?: string
           tags?: string[] | null
           title?: string
           updated_at?: string
           user_id?: string
+          word_count?: number
         }
         Relationships: [
           {
@@ -156,6 +391,13 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "posts_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -188,12 +430,170 @@ export type Database = {
         }
         Relationships: []
       }
+      series: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          slug: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          slug: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          slug?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      count_search_posts: {
+        Args: {
+          category?: string
+          search_query: string
+        }
+        Returns: number
+      }
+      delete_comment: {
+        Args: {
+          target_comment: string
+        }
+        Returns: undefined
+      }
+      get_post_preview: {
+        Args: {
+          preview_token: string
+        }
+        Returns: {
+          authors: Json
+          category_name: string
+          content: string
+          created_at: string
+          expires_at: string
+          featured_image_url: string
+          id: string
+          reading_time_minutes: number
+          slug: string
+          status: string
+          tags: string[]
+          title: string
+          updated_at: string
+          word_count: number
+        }[]
+      }
+      invite_post_coauthor: {
+        Args: {
+          invitee: string
+          target_post: string
+        }
+        Returns: undefined
+      }
+      is_post_author: {
+        Args: {
+          include_invited?: boolean
+          target_post: string
+        }
+        Returns: boolean
+      }
+      is_post_owner: {
+        Args: {
+          target_post: string
+        }
+        Returns: boolean
+      }
+      is_slug_available: {
+        Args: {
+          candidate: string
+          current_post_id?: string
+        }
+        Returns: boolean
+      }
+      markdown_to_plain_text: {
+        Args: {
+          markdown: string
+        }
+        Returns: string
+      }
+      posts_search_document: {
+        Args: {
+          content: string
+          excerpt: string
+          tags: string[]
+          title: string
+        }
+        Returns: unknown
+      }
+      publish_scheduled_posts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      resolve_post_slug: {
+        Args: {
+          lookup: string
+        }
+        Returns: {
+          id: string
+          slug: string
+        }[]
+      }
+      respond_to_coauthor_invitation: {
+        Args: {
+          accept: boolean
+          invitation: string
+        }
+        Returns: undefined
+      }
+      search_posts: {
+        Args: {
+          category?: string
+          result_limit?: number
+          result_offset?: number
+          search_query: string
+        }
+        Returns: {
+          category_id: string
+          comments_count: number
+          excerpt: string
+          featured_image_url: string
+          id: string
+          likes_count: number
+          published_at: string
+          rank: number
+          reading_time_minutes: number
+          slug: string
+          snippet: string
+          tags: string[]
+          title: string
+          user_id: string
+          word_count: number
+        }[]
+      }
+      set_post_series: {
+        Args: {
+          target_post: string
+          target_position?: number
+          target_series?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
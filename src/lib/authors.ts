@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BylineAuthor {
+  userId: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+export const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?';
+
+// Accepted authors of each post, keyed by post id: the owner first, then
+// co-authors in the order they joined
+export const fetchPostAuthors = async (postIds: string[]) => {
+  const authorsByPost: Record<string, BylineAuthor[]> = {};
+  if (postIds.length === 0) return authorsByPost;
+
+  const { data: rows, error } = await supabase
+    .from('post_authors')
+    .select('post_id, user_id, role')
+    .in('post_id', postIds)
+    .not('accepted_at', 'is', null)
+    .order('accepted_at');
+
+  if (error) throw error;
+
+  const userIds = [...new Set(rows.map((row) => row.user_id))];
+  const { data: profilesData, error: profilesError } = userIds.length
+    ? await supabase.from('profiles').select('user_id, display_name, avatar_url').in('user_id', userIds)
+    : { data: [], error: null };
+
+  if (profilesError) throw profilesError;
+
+  [...rows]
+    .sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'))
+    .forEach((row) => {
+      const profile = profilesData?.find((p) => p.user_id === row.user_id);
+      (authorsByPost[row.post_id] ||= []).push({
+        userId: row.user_id,
+        name: profile?.display_name || 'Anonymous',
+        avatarUrl: profile?.avatar_url || null
+      });
+    });
+
+  return authorsByPost;
+};
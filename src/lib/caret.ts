@@ -0,0 +1,56 @@
+// Styles that affect where text wraps, copied onto the measuring element
+const MIRRORED_PROPERTIES = [
+  'boxSizing',
+  'width',
+  'borderTopWidth',
+  'borderRightWidth',
+  'borderBottomWidth',
+  'borderLeftWidth',
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'fontStyle',
+  'letterSpacing',
+  'lineHeight',
+  'tabSize',
+  'textIndent',
+  'textTransform',
+  'wordSpacing',
+] as const;
+
+// Position of a character offset inside a textarea, relative to its top-left
+// corner and ignoring scroll. Measured by laying the text out in a hidden div
+// styled like the textarea.
+export const getCaretCoordinates = (textarea: HTMLTextAreaElement, position: number) => {
+  const mirror = document.createElement('div');
+  const computed = window.getComputedStyle(textarea);
+
+  MIRRORED_PROPERTIES.forEach((property) => {
+    mirror.style[property] = computed[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+
+  mirror.textContent = textarea.value.slice(0, position);
+  const marker = document.createElement('span');
+  marker.textContent = textarea.value.slice(position) || '.';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const coordinates = {
+    top: marker.offsetTop + parseInt(computed.borderTopWidth, 10),
+    left: marker.offsetLeft + parseInt(computed.borderLeftWidth, 10),
+    height: parseInt(computed.lineHeight, 10) || parseInt(computed.fontSize, 10) * 1.2
+  };
+  document.body.removeChild(mirror);
+
+  return coordinates;
+};
@@ -0,0 +1,55 @@
+import type { Nodes } from 'mdast';
+import { INLINE_TYPES, parseMarkdown } from '@/lib/markdownAst';
+
+export const EXCERPT_LENGTH = 160;
+
+// Blocks that don't read as a summary of the post
+const SKIPPED_TYPES = new Set([
+  'heading',
+  'code',
+  'html',
+  'image',
+  'imageReference',
+  'table',
+  'definition',
+  'footnoteReference',
+  'footnoteDefinition'
+]);
+
+// Shortens to the last sentence that keeps at least half the length, or else
+// the last whole word, and marks the cut with an ellipsis
+export const truncateText = (text: string, maxLength: number) => {
+  if (text.length <= maxLength) return text;
+
+  // One extra character so a word ending exactly at the limit is kept
+  const head = text.slice(0, maxLength + 1);
+  const sentenceEnd = Math.max(head.lastIndexOf('. '), head.lastIndexOf('! '), head.lastIndexOf('? '));
+  const wordEnd = head.lastIndexOf(' ');
+  const cut = sentenceEnd >= maxLength / 2 ? sentenceEnd + 1 : wordEnd > 0 ? wordEnd : maxLength;
+
+  return `${text.slice(0, cut).replace(/[\s.,;:!?–—-]+$/, '')}…`;
+};
+
+// Plain-text summary of a post's Markdown, used when the author leaves the
+// excerpt empty. Older posts were backfilled by a SQL port of this in the
+// 20261019114500 migration.
+export const generateExcerpt = (content: string, maxLength = EXCERPT_LENGTH) => {
+  let text = '';
+
+  const visit = (node: Nodes) => {
+    if (SKIPPED_TYPES.has(node.type)) return;
+    if (node.type === 'text' || node.type === 'inlineCode') {
+      text += node.value;
+      return;
+    }
+    if (node.type === 'break') {
+      text += ' ';
+      return;
+    }
+    if ('children' in node) node.children.forEach(visit);
+    if (!INLINE_TYPES.has(node.type)) text += ' ';
+  };
+
+  visit(parseMarkdown(content));
+  return truncateText(text.replace(/\s+/g, ' ').trim(), maxLength);
+};
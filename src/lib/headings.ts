@@ -0,0 +1,86 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import type { ElementContent, Root } from 'hast';
+import { slugify } from '@/lib/slugs';
+
+export interface Heading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+const HEADING_TAG = /^h([1-6])$/;
+
+// Heading elements get this prefix, as on GitHub, so a heading titled "Root"
+// can't take an id the page already uses. Links and Heading.id use the bare id.
+const HEADING_ID_PREFIX = 'user-content-';
+
+export const headingElementId = (id: string) => `${HEADING_ID_PREFIX}${id}`;
+
+export const headingIdFromElement = (elementId: string) =>
+  elementId.startsWith(HEADING_ID_PREFIX) ? elementId.slice(HEADING_ID_PREFIX.length) : elementId;
+
+const textOf = (node: ElementContent): string => {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(textOf).join('');
+  return '';
+};
+
+// Gives every heading an id from its text, numbering repeats the way GitHub
+// does ("setup", "setup-1"), and returns them in document order
+const assignHeadingIds = (tree: Root) => {
+  const headings: Heading[] = [];
+  const counts = new Map<string, number>();
+
+  const visit = (nodes: (Root | ElementContent)[]) => {
+    nodes.forEach((node) => {
+      if (node.type !== 'root' && node.type !== 'element') return;
+
+      const level = node.type === 'element' && node.tagName.match(HEADING_TAG)?.[1];
+      if (node.type === 'element' && level) {
+        // Headings generated with their own id, like the footnotes label, are left alone
+        if (node.properties.id) return;
+
+        const text = node.children.map(textOf).join('').trim();
+        const base = slugify(text) || 'section';
+        const count = counts.get(base) ?? 0;
+        const id = count === 0 ? base : `${base}-${count}`;
+
+        counts.set(base, count + 1);
+        node.properties.id = headingElementId(id);
+        headings.push({ id, text, level: Number(level) });
+        return;
+      }
+      visit(node.children as ElementContent[]);
+    });
+  };
+
+  visit([tree]);
+  return headings;
+};
+
+// rehype plugin used by MarkdownContent, so rendered anchors match extractHeadings
+export const rehypeHeadingIds = () => (tree: Root) => {
+  assignHeadingIds(tree);
+};
+
+// Runs the same Markdown pipeline as the renderer, without rendering
+export const extractHeadings = (content: string) => {
+  const processor = unified().use(remarkParse).use(remarkGfm).use(remarkRehype);
+  const tree = processor.runSync(processor.parse(content)) as Root;
+  return assignHeadingIds(tree);
+};
+
+export const headingUrl = (id: string) =>
+  `${window.location.origin}${window.location.pathname}#${id}`;
+
+// Scrolls to a heading and records it in the URL without adding history entries
+export const scrollToHeading = (id: string, behavior: ScrollBehavior = 'smooth') => {
+  const element = document.getElementById(headingElementId(id));
+  if (!element) return;
+
+  element.scrollIntoView({ behavior, block: 'start' });
+  window.history.replaceState(window.history.state, '', `#${id}`);
+};
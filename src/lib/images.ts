@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const POST_IMAGES_BUCKET = 'post-images';
+
+// Keep in sync with the post-images bucket limits in the storage migration
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const MAX_IMAGE_DIMENSION = 1920;
+const RESIZE_QUALITY = 0.85;
+
+export interface UploadedImage {
+  url: string;
+  path: string;
+  width: number;
+  height: number;
+  alt: string;
+}
+
+// Only the type is checked up front; the size limit applies to the resized
+// image, so large photos that downscale under it are still accepted
+export const validateImageFile = (file: File): string | null => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG, WebP and GIF images are supported.';
+  }
+  return null;
+};
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image file.'));
+    };
+    image.src = url;
+  });
+
+// Downscale large images in the browser before uploading. GIFs are left
+// untouched so animations survive.
+export const resizeImage = async (file: File, maxDimension = MAX_IMAGE_DIMENSION) => {
+  const image = await loadImage(file);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+
+  if (scale === 1 || file.type === 'image/gif') {
+    return { blob: file as Blob, width, height };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, file.type, RESIZE_QUALITY)
+  );
+  if (!blob) throw new Error('Could not resize image.');
+
+  return { blob, width: canvas.width, height: canvas.height };
+};
+
+const extensionFor = (type: string) => type.split('/')[1].replace('jpeg', 'jpg');
+
+export const uploadImage = async (userId: string, file: File): Promise<UploadedImage> => {
+  const validationError = validateImageFile(file);
+  if (validationError) throw new Error(validationError);
+
+  const { blob, width, height } = await resizeImage(file);
+  if (blob.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Images must be smaller than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB.`);
+  }
+
+  const path = `${userId}/${crypto.randomUUID()}.${extensionFor(file.type)}`;
+
+  const { error } = await supabase.storage
+    .from(POST_IMAGES_BUCKET)
+    .upload(path, blob, { contentType: file.type, cacheControl: '31536000' });
+
+  if (error) throw error;
+
+  // Register the upload so it shows up in the media library
+  const alt = altTextFromFileName(file.name);
+  const { error: assetError } = await supabase
+    .from('media_assets')
+    .insert([{
+      user_id: userId,
+      storage_path: path,
+      file_name: file.name,
+      mime_type: file.type,
+      size_bytes: blob.size,
+      width,
+      height,
+      alt_text: alt
+    }]);
+
+  if (assetError) console.warn('Could not register media asset', assetError);
+
+  return { url: publicUrlFor(path), path, width, height, alt };
+};
+
+export const publicUrlFor = (path: string) =>
+  supabase.storage.from(POST_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+
+export const deleteImage = async (path: string) => {
+  const { error } = await supabase.storage.from(POST_IMAGES_BUCKET).remove([path]);
+  if (error) throw error;
+
+  const { error: assetError } = await supabase
+    .from('media_assets')
+    .delete()
+    .eq('storage_path', path);
+
+  if (assetError) throw assetError;
+};
+
+// Alt text suggestion from a file name, e.g. "my-cat_photo.png" -> "my cat photo"
+export const altTextFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'image';
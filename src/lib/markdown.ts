@@ -0,0 +1,258 @@
+// Text transforms behind the editor toolbar, shortcuts and slash commands.
+// Each takes the textarea value and selection and returns the new ones.
+
+export interface TextSelection {
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type FormatAction =
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bold'
+  | 'italic'
+  | 'link'
+  | 'quote'
+  | 'code'
+  | 'bulletList'
+  | 'numberedList'
+  | 'taskList'
+  | 'image'
+  | 'table'
+  | 'divider';
+
+const TABLE_TEMPLATE = [
+  '| Column 1 | Column 2 |',
+  '| -------- | -------- |',
+  '| Cell     | Cell     |'
+].join('\n');
+
+const LIST_PREFIXES = /^(\s*)([-*+] \[[ xX]\] |[-*+] |\d+\. |> ?)/;
+
+const lineRange = ({ value, start, end }: TextSelection) => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  // A selection ending right after a newline should not pull in the next line
+  const rangeEnd = end > start && value[end - 1] === '\n' ? end - 1 : end;
+  const lineEnd = value.indexOf('\n', rangeEnd);
+  return { lineStart, lineEnd: lineEnd === -1 ? value.length : lineEnd };
+};
+
+const transformLines = (
+  selection: TextSelection,
+  transform: (line: string, index: number) => string
+): TextSelection => {
+  const { value, start, end } = selection;
+  const { lineStart, lineEnd } = lineRange(selection);
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const next = lines.map(transform).join('\n');
+  const result = value.slice(0, lineStart) + next + value.slice(lineEnd);
+
+  if (start === end && lines.length === 1) {
+    const caret = Math.max(lineStart, start + next.length - lines[0].length);
+    return { value: result, start: caret, end: caret };
+  }
+  return { value: result, start: lineStart, end: lineStart + next.length };
+};
+
+export const toggleWrap = (selection: TextSelection, marker: string, placeholder: string): TextSelection => {
+  const { value, start, end } = selection;
+  const size = marker.length;
+  const selected = value.slice(start, end);
+
+  if (value.slice(start - size, start) === marker && value.slice(end, end + size) === marker) {
+    return {
+      value: value.slice(0, start - size) + selected + value.slice(end + size),
+      start: start - size,
+      end: end - size
+    };
+  }
+
+  if (selected.length >= size * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(size, -size);
+    return { value: value.slice(0, start) + inner + value.slice(end), start, end: start + inner.length };
+  }
+
+  const text = selected || placeholder;
+  return {
+    value: value.slice(0, start) + marker + text + marker + value.slice(end),
+    start: start + size,
+    end: start + size + text.length
+  };
+};
+
+type ListKind = 'quote' | 'bulletList' | 'numberedList' | 'taskList';
+
+const LIST_PATTERNS: Record<ListKind, RegExp> = {
+  quote: /^> ?/,
+  bulletList: /^[-*+] (?!\[[ xX]\] )/,
+  numberedList: /^\d+\. /,
+  taskList: /^[-*+] \[[ xX]\] /
+};
+
+const listPrefix = (kind: ListKind, index: number) => {
+  switch (kind) {
+    case 'quote': return '> ';
+    case 'bulletList': return '- ';
+    case 'numberedList': return `${index + 1}. `;
+    case 'taskList': return '- [ ] ';
+  }
+};
+
+// Adds the prefix to every line, or removes it when all lines already have it
+export const toggleLinePrefix = (selection: TextSelection, kind: ListKind): TextSelection => {
+  const { lineStart, lineEnd } = lineRange(selection);
+  const lines = selection.value.slice(lineStart, lineEnd).split('\n');
+  const pattern = LIST_PATTERNS[kind];
+  const isApplied = lines.some(line => line.trim()) &&
+    lines.every(line => !line.trim() || pattern.test(line));
+
+  let position = 0;
+  return transformLines(selection, (line) => {
+    if (isApplied) return line.replace(pattern, '');
+    if (!line.trim() && lines.length > 1) return line;
+    return listPrefix(kind, position++) + line.replace(LIST_PREFIXES, '$1');
+  });
+};
+
+export const setHeading = (selection: TextSelection, level: number): TextSelection => {
+  const { lineStart } = lineRange(selection);
+  const firstLine = selection.value.slice(lineStart).split('\n')[0];
+  const current = firstLine.match(/^(#{1,6})\s/)?.[1].length;
+  const hashes = current === level ? '' : `${'#'.repeat(level)} `;
+
+  return transformLines(selection, (line) => hashes + line.replace(/^#{1,6}\s+/, ''));
+};
+
+// Puts a block on its own lines, separated from surrounding text by blank lines.
+// selectFrom/selectTo are offsets within the block to select afterwards.
+export const insertBlock = (
+  selection: TextSelection,
+  block: string,
+  selectFrom = block.length,
+  selectTo = selectFrom
+): TextSelection => {
+  const { value, start, end } = selection;
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  const prefix = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const suffix = after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : after === '' ? '\n' : '\n\n';
+  const blockStart = start + prefix.length;
+
+  return {
+    value: before + prefix + block + suffix + after,
+    start: blockStart + selectFrom,
+    end: blockStart + selectTo
+  };
+};
+
+export const insertLink = (selection: TextSelection): TextSelection => {
+  const { value, start, end } = selection;
+  const selected = value.slice(start, end);
+  const isUrl = /^https?:\/\/\S+$/.test(selected);
+  const text = isUrl ? 'link text' : selected || 'link text';
+  const url = isUrl ? selected : 'https://';
+  const markdown = `[${text}](${url})`;
+
+  // Select whichever part still needs to be filled in
+  const selectStart = isUrl || !selected ? start + 1 : start + text.length + 3;
+  const selectEnd = isUrl || !selected ? selectStart + text.length : selectStart + url.length;
+
+  return { value: value.slice(0, start) + markdown + value.slice(end), start: selectStart, end: selectEnd };
+};
+
+export const insertCode = (selection: TextSelection): TextSelection => {
+  const { value, start, end } = selection;
+  const selected = value.slice(start, end);
+  const { lineStart, lineEnd } = lineRange(selection);
+  const isEmptyLine = !value.slice(lineStart, lineEnd).trim();
+
+  if (selected.includes('\n') || (!selected && isEmptyLine)) {
+    const fence = '```\n';
+    return insertBlock(
+      isEmptyLine && !selected ? { value, start: lineStart, end: lineEnd } : selection,
+      `${fence}${selected}\n\`\`\``,
+      fence.length,
+      fence.length + selected.length
+    );
+  }
+
+  return toggleWrap(selection, '`', 'code');
+};
+
+export const insertImage = (selection: TextSelection, url: string, alt: string): TextSelection => {
+  const { value, start, end } = selection;
+  const markdown = `![${alt}](${url})`;
+  const caret = start + markdown.length;
+  return { value: value.slice(0, start) + markdown + value.slice(end), start: caret, end: caret };
+};
+
+// Image insertion needs a URL, so the editor handles 'image' itself
+export const applyFormat = (action: Exclude<FormatAction, 'image'>, selection: TextSelection): TextSelection => {
+  switch (action) {
+    case 'heading1': return setHeading(selection, 1);
+    case 'heading2': return setHeading(selection, 2);
+    case 'heading3': return setHeading(selection, 3);
+    case 'bold': return toggleWrap(selection, '**', 'bold text');
+    case 'italic': return toggleWrap(selection, '_', 'italic text');
+    case 'link': return insertLink(selection);
+    case 'code': return insertCode(selection);
+    case 'quote':
+    case 'bulletList':
+    case 'numberedList':
+    case 'taskList':
+      return toggleLinePrefix(selection, action);
+    case 'table': return insertBlock(selection, TABLE_TEMPLATE, 2, 10);
+    case 'divider': return insertBlock(selection, '---');
+  }
+};
+
+interface Shortcut {
+  code: string;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+// Matched on KeyboardEvent.code so they work on any keyboard layout
+export const FORMAT_SHORTCUTS: Partial<Record<FormatAction, Shortcut>> = {
+  heading1: { code: 'Digit1', alt: true },
+  heading2: { code: 'Digit2', alt: true },
+  heading3: { code: 'Digit3', alt: true },
+  bold: { code: 'KeyB' },
+  italic: { code: 'KeyI' },
+  link: { code: 'KeyK' },
+  code: { code: 'KeyE' },
+  numberedList: { code: 'Digit7', shift: true },
+  bulletList: { code: 'Digit8', shift: true },
+  quote: { code: 'Digit9', shift: true },
+  image: { code: 'KeyI', alt: true },
+  table: { code: 'KeyT', alt: true }
+};
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const formatForShortcut = (event: React.KeyboardEvent): FormatAction | undefined => {
+  if (!(isMac() ? event.metaKey : event.ctrlKey)) return undefined;
+
+  return (Object.keys(FORMAT_SHORTCUTS) as FormatAction[]).find((action) => {
+    const shortcut = FORMAT_SHORTCUTS[action];
+    return shortcut.code === event.code &&
+      !!shortcut.shift === event.shiftKey &&
+      !!shortcut.alt === event.altKey;
+  });
+};
+
+export const shortcutLabel = (action: FormatAction) => {
+  const shortcut = FORMAT_SHORTCUTS[action];
+  if (!shortcut) return null;
+
+  const key = shortcut.code.replace(/^(Key|Digit)/, '');
+  const mac = isMac();
+  return [
+    mac ? '⌘' : 'Ctrl',
+    shortcut.shift && (mac ? '⇧' : 'Shift'),
+    shortcut.alt && (mac ? '⌥' : 'Alt'),
+    key
+  ].filter(Boolean).join(mac ? '' : '+');
+};
@@ -0,0 +1,11 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+// Markdown syntax tree, parsed the same way MarkdownContent renders it
+export const parseMarkdown = (content: string) => parser.parse(content);
+
+// Inline nodes continue the surrounding text; everything else ends a word
+export const INLINE_TYPES = new Set(['emphasis', 'strong', 'delete', 'link', 'linkReference']);
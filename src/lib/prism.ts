@@ -0,0 +1,67 @@
+import './prismGlobal';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-css';
+import 'prismjs/components/prism-diff';
+import 'prismjs/components/prism-docker';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-scss';
+import 'prismjs/components/prism-toml';
+import { Prism } from 'prism-react-renderer';
+
+// Fence tags people commonly write that Prism knows under another name
+const LANGUAGE_ALIASES: Record<string, string> = {
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  cs: 'csharp',
+  dockerfile: 'docker',
+  rb: 'ruby',
+  yml: 'yaml',
+  md: 'markdown',
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup'
+};
+
+export const resolveLanguage = (language?: string) => {
+  if (!language) return undefined;
+  const name = language.toLowerCase();
+  const resolved = LANGUAGE_ALIASES[name] || name;
+  return Prism.languages[resolved] ? resolved : undefined;
+};
+
+export interface CodeBlockMeta {
+  title?: string;
+  showLineNumbers: boolean;
+  highlightedLines: Set<number>;
+}
+
+// Parses the text after the language on a fence, e.g.
+// ```ts title="api.ts" showLineNumbers {1,4-6}
+// Highlighted ranges are clamped to the block's lineCount, so a huge range in
+// a post can't stall the page.
+export const parseCodeMeta = (meta = '', lineCount = 0): CodeBlockMeta => {
+  const title = meta.match(/\b(?:title|filename)=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  const ranges = meta.match(/\{([\d\s,-]+)\}/)?.[1] || '';
+  const highlightedLines = new Set<number>();
+
+  ranges.split(',').forEach((range) => {
+    const [from, to = from] = range.trim().split('-').map(Number);
+    if (!from || !to) return;
+    const last = Math.min(Math.max(from, to), lineCount);
+    for (let line = Math.min(from, to); line <= last; line++) {
+      highlightedLines.add(line);
+    }
+  });
+
+  return {
+    title: title ? title[1] ?? title[2] ?? title[3] : undefined,
+    showLineNumbers: /\b(showLineNumbers|lineNumbers)\b/.test(meta),
+    highlightedLines
+  };
+};
+
+export { Prism };
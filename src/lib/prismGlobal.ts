@@ -0,0 +1,5 @@
+import { Prism } from 'prism-react-renderer';
+
+// prismjs language components register themselves on a global Prism, so the
+// instance bundled with prism-react-renderer has to be exposed before they load
+(globalThis as typeof globalThis & { Prism: typeof Prism }).Prism = Prism;
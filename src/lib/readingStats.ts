@@ -0,0 +1,53 @@
+import type { Nodes } from 'mdast';
+import { INLINE_TYPES, parseMarkdown } from '@/lib/markdownAst';
+
+export const WORDS_PER_MINUTE = 230;
+// Time spent looking at each image, on top of the text
+export const SECONDS_PER_IMAGE = 12;
+
+export interface ReadingStats {
+  wordCount: number;
+  readingTimeMinutes: number;
+}
+
+const WORD = /[\p{L}\p{N}]/u;
+
+// Counts the words a reader sees: Markdown syntax, code blocks and raw HTML are
+// skipped, link and emphasis text is kept, and images add a fixed time each
+export const readingStats = (content: string): ReadingStats => {
+  let text = '';
+  let imageCount = 0;
+
+  const visit = (node: Nodes) => {
+    switch (node.type) {
+      case 'code':
+      case 'html':
+        return;
+      case 'image':
+      case 'imageReference':
+        imageCount++;
+        return;
+      case 'text':
+      case 'inlineCode':
+        text += node.value;
+        return;
+      case 'break':
+        text += ' ';
+        return;
+    }
+    if ('children' in node) node.children.forEach(visit);
+    if (!INLINE_TYPES.has(node.type)) text += ' ';
+  };
+
+  visit(parseMarkdown(content));
+  const words = text.split(/\s+/).filter((word) => WORD.test(word));
+
+  const seconds = (words.length / WORDS_PER_MINUTE) * 60 + imageCount * SECONDS_PER_IMAGE;
+  return {
+    wordCount: words.length,
+    // Anything readable takes at least a minute
+    readingTimeMinutes: seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : 0
+  };
+};
+
+export const formatReadingTime = (minutes: number) => `${minutes} min read`;
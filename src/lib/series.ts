@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { slugify } from '@/lib/slugs';
+
+export interface Series {
+  id: string;
+  user_id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+}
+
+// A post as listed in its series, ordered by series_position
+export interface SeriesPart {
+  id: string;
+  title: string;
+  slug: string;
+  status: string;
+  series_position: number;
+}
+
+// The title's slug when no series uses it, otherwise the first free "slug-2", "slug-3", ...
+export const findAvailableSeriesSlug = async (title: string) => {
+  const base = slugify(title) || 'series';
+  const { data, error } = await supabase
+    .from('series')
+    .select('slug')
+    .like('slug', `${base}%`);
+
+  if (error) throw error;
+
+  const taken = new Set(data.map((series) => series.slug));
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+export const fetchSeriesParts = async (seriesId: string, publishedOnly: boolean) => {
+  let query = supabase
+    .from('posts')
+    .select('id, title, slug, status, series_position')
+    .eq('series_id', seriesId)
+    .order('series_position');
+
+  if (publishedOnly) {
+    query = query.eq('status', 'published');
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data as SeriesPart[];
+};
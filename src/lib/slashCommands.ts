@@ -0,0 +1,46 @@
+import type { FormatAction } from '@/lib/markdown';
+import {
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListTodo,
+  Quote,
+  Code,
+  Table,
+  Minus,
+  ImageIcon,
+  type LucideIcon,
+} from 'lucide-react';
+
+export interface SlashCommand {
+  action: FormatAction;
+  label: string;
+  description: string;
+  icon: LucideIcon;
+  keywords: string[];
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { action: 'heading1', label: 'Heading 1', description: 'Large section heading', icon: Heading1, keywords: ['h1', 'title'] },
+  { action: 'heading2', label: 'Heading 2', description: 'Medium section heading', icon: Heading2, keywords: ['h2', 'subtitle'] },
+  { action: 'heading3', label: 'Heading 3', description: 'Small section heading', icon: Heading3, keywords: ['h3'] },
+  { action: 'bulletList', label: 'Bulleted list', description: 'A simple list', icon: List, keywords: ['ul', 'unordered'] },
+  { action: 'numberedList', label: 'Numbered list', description: 'A list with numbering', icon: ListOrdered, keywords: ['ol', 'ordered'] },
+  { action: 'taskList', label: 'Task list', description: 'A list with checkboxes', icon: ListTodo, keywords: ['todo', 'checkbox'] },
+  { action: 'quote', label: 'Quote', description: 'A block quotation', icon: Quote, keywords: ['blockquote', 'citation'] },
+  { action: 'code', label: 'Code block', description: 'A fenced code snippet', icon: Code, keywords: ['pre', 'snippet'] },
+  { action: 'table', label: 'Table', description: 'A two-column table', icon: Table, keywords: ['grid'] },
+  { action: 'divider', label: 'Divider', description: 'A horizontal rule', icon: Minus, keywords: ['hr', 'separator', 'line'] },
+  { action: 'image', label: 'Image', description: 'Pick from your media library', icon: ImageIcon, keywords: ['picture', 'photo', 'media'] },
+];
+
+export const filterSlashCommands = (query: string) => {
+  const search = query.toLowerCase();
+  if (!search) return SLASH_COMMANDS;
+  return SLASH_COMMANDS.filter(command =>
+    command.label.toLowerCase().includes(search) ||
+    command.keywords.some(keyword => keyword.startsWith(search))
+  );
+};
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Lowercase words joined by single hyphens, e.g. "my-first-post"
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const MAX_SLUG_LENGTH = 80;
+
+export const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/(^-|-$)/g, '');
+
+export const isSlugAvailable = async (slug: string, postId?: string) => {
+  const { data, error } = await supabase.rpc('is_slug_available', {
+    candidate: slug,
+    current_post_id: postId
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// The slug itself when it is free, otherwise the first free "slug-2", "slug-3", ...
+export const findAvailableSlug = async (slug: string, postId?: string) => {
+  const base = slug || 'post';
+  if (await isSlugAvailable(base, postId)) return base;
+
+  for (let suffix = 2; suffix < 100; suffix++) {
+    const candidate = `${base}-${suffix}`;
+    if (await isSlugAvailable(candidate, postId)) return candidate;
+  }
+
+  return `${base}-${Date.now()}`;
+};
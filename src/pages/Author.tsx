@@ -0,0 +1,233 @@
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Layout from '@/components/Layout';
+import BlogCard from '@/components/BlogCard';
+import PagePagination from '@/components/PagePagination';
+import { fetchPostAuthors } from '@/lib/authors';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ArrowLeft, Calendar, FileText, Heart, MessageCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+const POSTS_PER_PAGE = 9;
+
+const Author = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['profile', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId
+  });
+
+  // Posts count for everyone who wrote them, so co-authored posts are included
+  const { data: stats } = useQuery({
+    queryKey: ['authorStats', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('likes_count, comments_count, post_authors!inner (user_id)')
+        .eq('post_authors.user_id', userId)
+        .not('post_authors.accepted_at', 'is', null)
+        .eq('status', 'published');
+
+      if (error) throw error;
+
+      return (data || []).reduce((totals, post) => ({
+        likesCount: totals.likesCount + post.likes_count,
+        commentsCount: totals.commentsCount + post.comments_count
+      }), { likesCount: 0, commentsCount: 0 });
+    },
+    enabled: !!userId
+  });
+
+  const { data: postsPage, isLoading: isLoadingPosts } = useQuery({
+    queryKey: ['posts', 'author', userId, page],
+    queryFn: async () => {
+      const from = (page - 1) * POSTS_PER_PAGE;
+      const { data, error, count } = await supabase
+        .from('posts')
+        .select(`
+          id,
+          title,
+          slug,
+          excerpt,
+          featured_image_url,
+          tags,
+          published_at,
+          likes_count,
+          comments_count,
+          reading_time_minutes,
+          categories (name, slug),
+          post_authors!inner (user_id)
+        `, { count: 'exact' })
+        .eq('post_authors.user_id', userId)
+        .not('post_authors.accepted_at', 'is', null)
+        .eq('status', 'published')
+        .order('published_at', { ascending: false })
+        .range(from, from + POSTS_PER_PAGE - 1);
+
+      if (error) throw error;
+
+      // Co-authored posts are bylined with everyone who wrote them
+      const authorsByPost = await fetchPostAuthors((data || []).map(post => post.id));
+      return {
+        posts: (data || []).map(post => ({ ...post, authors: authorsByPost[post.id] || [] })),
+        total: count || 0
+      };
+    },
+    enabled: !!userId,
+    placeholderData: keepPreviousData
+  });
+
+  const handlePageChange = (nextPage: number) => {
+    setSearchParams(nextPage === 1 ? {} : { page: String(nextPage) });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="animate-pulse flex items-center space-x-4">
+            <div className="h-20 w-20 bg-muted rounded-full"></div>
+            <div className="space-y-2 flex-1">
+              <div className="h-6 bg-muted rounded w-1/3"></div>
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+            </div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Author not found</h1>
+          <Link to="/">
+            <Button>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Button>
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const displayName = profile.display_name || 'Anonymous';
+  const posts = postsPage?.posts || [];
+  const totalPosts = postsPage?.total || 0;
+  const pageCount = Math.ceil(totalPosts / POSTS_PER_PAGE);
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Author Header */}
+        <Card className="mb-8">
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row md:items-center gap-6">
+              <Avatar className="h-20 w-20">
+                {profile.avatar_url && (
+                  <AvatarImage src={profile.avatar_url} alt={displayName} className="object-cover" />
+                )}
+                <AvatarFallback className="text-2xl">
+                  {displayName.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 space-y-2">
+                <h1 className="text-3xl font-bold">{displayName}</h1>
+                {profile.bio && (
+                  <p className="text-muted-foreground">{profile.bio}</p>
+                )}
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  <div className="flex items-center">
+                    <Calendar className="h-4 w-4 mr-1" />
+                    Joined {format(new Date(profile.created_at), 'MMMM yyyy')}
+                  </div>
+                  <div className="flex items-center">
+                    <FileText className="h-4 w-4 mr-1" />
+                    {totalPosts} {totalPosts === 1 ? 'post' : 'posts'}
+                  </div>
+                  <div className="flex items-center">
+                    <Heart className="h-4 w-4 mr-1" />
+                    {stats?.likesCount ?? 0} likes received
+                  </div>
+                  <div className="flex items-center">
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {stats?.commentsCount ?? 0} comments received
+                  </div>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Author Posts */}
+        <h2 className="text-2xl font-bold mb-6">Posts by {displayName}</h2>
+
+        {isLoadingPosts ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="bg-muted rounded-lg h-64"></div>
+              </div>
+            ))}
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold mb-2">No posts yet</h3>
+            <p className="text-muted-foreground">
+              {displayName} hasn't published anything yet.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {posts.map((post) => (
+                <BlogCard
+                  key={post.id}
+                  slug={post.slug}
+                  title={post.title}
+                  excerpt={post.excerpt || ''}
+                  featuredImage={post.featured_image_url}
+                  category={post.categories}
+                  tags={post.tags || []}
+                  authors={post.authors}
+                  publishedAt={post.published_at}
+                  likesCount={post.likes_count}
+                  commentsCount={post.comments_count}
+                  readingTimeMinutes={post.reading_time_minutes}
+                />
+              ))}
+            </div>
+            <PagePagination
+              page={page}
+              pageCount={pageCount}
+              onPageChange={handlePageChange}
+              className="mt-8"
+            />
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Author;
@@ -1,32 +1,122 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import Layout from '@/components/Layout';
+import LivePreviewEditor from '@/components/LivePreviewEditor';
+import FeaturedImageField from '@/components/FeaturedImageField';
+import AutosaveIndicator from '@/components/AutosaveIndicator';
+import RevisionHistory, { type PostRevision } from '@/components/RevisionHistory';
+import SchedulePicker from '@/components/SchedulePicker';
+import SlugField from '@/components/SlugField';
+import SeriesField, { type SeriesAssignment } from '@/components/SeriesField';
+import CoAuthorsField from '@/components/CoAuthorsField';
+import PreviewLinksDialog from '@/components/PreviewLinksDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/hooks/useAuth';
+import { useAutosave, readStoredDraft, clearStoredDraft, type StoredDraft } from '@/hooks/useAutosave';
 import { toast } from '@/hooks/use-toast';
-import { Save, Eye, Send, X } from 'lucide-react';
+import { findAvailableSlug, isSlugAvailable, slugify, SLUG_PATTERN } from '@/lib/slugs';
+import { formatReadingTime, readingStats } from '@/lib/readingStats';
+import { generateExcerpt } from '@/lib/excerpts';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { Save, Send, X, History, Link2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 
-const CreatePost = () => {
+type PostStatus = 'draft' | 'scheduled' | 'published';
+
+interface DraftFields {
+  title: string;
+  // Empty while the slug follows the title
+  slug: string;
+  content: string;
+  excerpt: string;
+  categoryId: string;
+  tags: string[];
+  featuredImage: string;
+}
+
+const draftStorageKey = (userId: string, postId?: string) =>
+  `blog-forge:draft:${userId}:${postId || 'new'}`;
+
+const postFieldsFrom = (fields: DraftFields) => {
+  const stats = readingStats(fields.content);
+  return {
+    title: fields.title,
+    content: fields.content,
+    excerpt: fields.excerpt || generateExcerpt(fields.content),
+    excerpt_generated: !fields.excerpt,
+    category_id: fields.categoryId || null,
+    tags: fields.tags,
+    featured_image_url: fields.featuredImage || null,
+    word_count: stats.wordCount,
+    reading_time_minutes: stats.readingTimeMinutes
+  };
+};
+
+// A slug chosen by the author must be free; a derived one is made unique
+const resolveSlug = async (fields: DraftFields, postId?: string) => {
+  if (!fields.slug) return findAvailableSlug(slugify(fields.title), postId);
+  if (!(await isSlugAvailable(fields.slug, postId))) {
+    throw new Error(`The URL /post/${fields.slug} is already taken.`);
+  }
+  return fields.slug;
+};
+
+// Autosave keeps the stored slug rather than failing when the chosen one is taken
+const resolveAutosaveSlug = (fields: DraftFields, postId?: string) =>
+  resolveSlug(fields, postId).catch(() => undefined);
+
+interface EditorLocationState {
+  // Carried through the redirect after a new post's first autosave so the
+  // editor stays mounted while the user keeps typing
+  editorKey?: string;
+}
+
+interface PostEditorProps {
+  editorKey: string;
+}
+
+const PostEditor = ({ editorKey }: PostEditorProps) => {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = !!id;
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   
   const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
   const [content, setContent] = useState('');
   const [excerpt, setExcerpt] = useState('');
   const [categoryId, setCategoryId] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [featuredImage, setFeaturedImage] = useState('');
-  const [isPreview, setIsPreview] = useState(false);
+  const [loadedPostId, setLoadedPostId] = useState<string | null>(null);
+  const [checkedDraftKey, setCheckedDraftKey] = useState<string | null>(null);
+  const [recoveryDraft, setRecoveryDraft] = useState<StoredDraft<DraftFields> | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isPreviewLinksOpen, setIsPreviewLinksOpen] = useState(false);
+  const [series, setSeries] = useState<SeriesAssignment>({ seriesId: '', position: null });
+  // Counted from a debounced copy so long posts aren't re-parsed on every keystroke
+  const debouncedContent = useDebouncedValue(content);
+  const contentStats = useMemo(() => readingStats(debouncedContent), [debouncedContent]);
+  const generatedExcerpt = useMemo(() => generateExcerpt(debouncedContent), [debouncedContent]);
 
   useEffect(() => {
     if (!user) {
@@ -34,6 +124,59 @@ const CreatePost = () => {
     }
   }, [user, navigate]);
 
+  const { data: existingPost, isLoading: isLoadingPost } = useQuery({
+    queryKey: ['post', id, 'edit'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      // Co-authors who accepted their invitation may edit the post too
+      const { data: authorRow } = await supabase
+        .from('post_authors')
+        .select('role')
+        .eq('post_id', data.id)
+        .eq('user_id', user.id)
+        .not('accepted_at', 'is', null)
+        .maybeSingle();
+
+      return { ...data, isCoAuthor: authorRow?.role === 'co-author' };
+    },
+    enabled: isEditing && !!user
+  });
+  // Co-authors edit the content; the URL, status, series and authors stay with the owner
+  const isOwner = !existingPost || existingPost.user_id === user?.id;
+
+  useEffect(() => {
+    if (!existingPost || loadedPostId === existingPost.id) return;
+
+    if (existingPost.user_id !== user?.id && !existingPost.isCoAuthor) {
+      toast({
+        title: 'Not allowed',
+        description: 'You can only edit posts you author.',
+        variant: 'destructive'
+      });
+      navigate(`/post/${existingPost.slug}`);
+      return;
+    }
+
+    setTitle(existingPost.title);
+    // Drafts whose slug was derived from the title keep following it
+    setSlug(existingPost.status === 'draft' && existingPost.slug === slugify(existingPost.title) ? '' : existingPost.slug);
+    setContent(existingPost.content || '');
+    // A generated excerpt stays empty in the editor so it keeps tracking the content
+    setExcerpt(existingPost.excerpt_generated ? '' : existingPost.excerpt || '');
+    setCategoryId(existingPost.category_id || '');
+    setTags(existingPost.tags || []);
+    setFeaturedImage(existingPost.featured_image_url || '');
+    setSeries({ seriesId: existingPost.series_id || '', position: existingPost.series_position });
+    setLoadedPostId(existingPost.id);
+  }, [existingPost, loadedPostId, user, navigate]);
+
   const { data: categories = [] } = useQuery({
     queryKey: ['categories'],
     queryFn: async () => {
@@ -46,22 +189,169 @@ const CreatePost = () => {
     }
   });
 
-  const createPostMutation = useMutation({
-    mutationFn: async ({ status }: { status: 'draft' | 'published' }) => {
+  const draftFields = useMemo<DraftFields>(
+    () => ({ title, slug, content, excerpt, categoryId, tags, featuredImage }),
+    [title, slug, content, excerpt, categoryId, tags, featuredImage]
+  );
+
+  const applyDraftFields = (fields: DraftFields) => {
+    setTitle(fields.title);
+    setSlug(fields.slug);
+    setContent(fields.content);
+    setExcerpt(fields.excerpt);
+    setCategoryId(fields.categoryId);
+    setTags(fields.tags);
+    setFeaturedImage(fields.featuredImage);
+  };
+
+  const storageKey = user ? draftStorageKey(user.id, id) : '';
+  const isPostReady = !isEditing || loadedPostId === id;
+
+  // Offer to restore a local copy that is newer than what the server has
+  useEffect(() => {
+    if (!user || !isPostReady || checkedDraftKey === storageKey) return;
+
+    const stored = readStoredDraft<DraftFields>(storageKey);
+    const serverUpdatedAt = existingPost?.updated_at;
+    if (
+      stored &&
+      JSON.stringify(stored.value) !== JSON.stringify(draftFields) &&
+      (!serverUpdatedAt || new Date(stored.savedAt) > new Date(serverUpdatedAt))
+    ) {
+      setRecoveryDraft(stored);
+    } else if (stored) {
+      clearStoredDraft(storageKey);
+    }
+    setCheckedDraftKey(storageKey);
+  }, [user, isPostReady, checkedDraftKey, storageKey, existingPost, draftFields]);
+
+  // Live posts are only autosaved locally so half-finished edits never go public
+  const canAutosaveToServer = !!title.trim() && (!isEditing || existingPost?.status === 'draft');
+
+  // Set by the first autosave of a new post. A save queued behind that insert
+  // can run before the new row reaches existingPost, and must update it
+  // rather than insert a second draft.
+  const createdPostIdRef = useRef<string | null>(null);
+
+  const saveDraftToServer = useCallback(async (fields: DraftFields) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const postId = existingPost?.id ?? createdPostIdRef.current;
+    if (postId) {
+      const { data, error } = await supabase
+        .from('posts')
+        .update({
+          ...postFieldsFrom(fields),
+          ...(isOwner && { slug: await resolveAutosaveSlug(fields, postId) })
+        })
+        .eq('id', postId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      queryClient.setQueryData(['post', data.id, 'edit'], data);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('posts')
+      .insert([{
+        ...postFieldsFrom(fields),
+        user_id: user.id,
+        slug: await resolveAutosaveSlug(fields) ?? await findAvailableSlug(slugify(fields.title)),
+        status: 'draft',
+        published_at: null
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    createdPostIdRef.current = data.id;
+
+    // Continue editing the new row; seeding the cache and marking it loaded
+    // keeps the fields the user is typing in from being replaced
+    queryClient.setQueryData(['post', data.id, 'edit'], data);
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
+    setLoadedPostId(data.id);
+    setCheckedDraftKey(draftStorageKey(user.id, data.id));
+    navigate(`/post/${data.id}/edit`, { replace: true, state: { editorKey } });
+  }, [user, existingPost, isOwner, queryClient, navigate, editorKey]);
+
+  const autosave = useAutosave({
+    storageKey,
+    value: draftFields,
+    enabled: !!user && isPostReady && checkedDraftKey === storageKey,
+    saveRemote: canAutosaveToServer ? saveDraftToServer : undefined
+  });
+
+  // Series membership goes through set_post_series, which keeps the positions
+  // of the other parts contiguous
+  const saveSeries = async <T extends { id: string; series_id: string | null; series_position: number | null }>(post: T) => {
+    if ((post.series_id || '') === series.seriesId && post.series_position === series.position) return post;
+
+    const { data, error } = await supabase.rpc('set_post_series', {
+      target_post: post.id,
+      target_series: series.seriesId || undefined,
+      target_position: series.position ?? undefined
+    });
+
+    if (error) throw error;
+    return { ...post, series_id: series.seriesId || null, series_position: data };
+  };
+
+  const savePostMutation = useMutation({
+    mutationFn: async ({ status, publishAt }: { status: PostStatus; publishAt?: Date }) => {
       if (!user) throw new Error('User not authenticated');
+
+      if (existingPost && !isOwner) {
+        const { data, error } = await supabase
+          .from('posts')
+          .update(postFieldsFrom(draftFields))
+          .eq('id', existingPost.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return data;
+      }
       
-      const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+      const postFields = {
+        ...postFieldsFrom(draftFields),
+        slug: await resolveSlug(draftFields, existingPost?.id),
+        status
+      };
+
+      if (isEditing) {
+        if (!existingPost) throw new Error('Post not loaded');
+
+        // Keep the original publish date when updating a live post; only a
+        // draft being published for the first time gets a fresh timestamp.
+        let publishedAt: string | null = null;
+        if (status === 'published') {
+          publishedAt = existingPost.status === 'published' && existingPost.published_at
+            ? existingPost.published_at
+            : new Date().toISOString();
+        } else if (status === 'scheduled') {
+          publishedAt = publishAt.toISOString();
+        }
+
+        const { data, error } = await supabase
+          .from('posts')
+          .update({ ...postFields, published_at: publishedAt })
+          .eq('id', existingPost.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return saveSeries(data);
+      }
+
       const postData = {
+        ...postFields,
         user_id: user.id,
-        title,
-        slug: `${slug}-${Date.now()}`,
-        content,
-        excerpt: excerpt || content.substring(0, 150),
-        category_id: categoryId || null,
-        tags,
-        featured_image_url: featuredImage || null,
-        status,
-        published_at: status === 'published' ? new Date().toISOString() : null
+        published_at: status === 'published'
+          ? new Date().toISOString()
+          : status === 'scheduled' ? publishAt.toISOString() : null
       };
 
       const { data, error } = await supabase
@@ -71,17 +361,42 @@ const CreatePost = () => {
         .single();
 
       if (error) throw error;
-      return data;
+      return saveSeries(data);
     },
-    onSuccess: (data, variables) => {
-      toast({
-        title: variables.status === 'published' ? 'Post published!' : 'Draft saved!',
-        description: variables.status === 'published' 
-          ? 'Your post is now live and visible to everyone.'
-          : 'Your draft has been saved successfully.'
-      });
+    onSuccess: async (data, variables) => {
+      autosave.reset();
+      await recordRevision(data);
+      const wasPublished = existingPost?.status === 'published';
+      const wasScheduled = existingPost?.status === 'scheduled';
+      if (!isOwner) {
+        toast({
+          title: 'Changes saved',
+          description: 'Your edits to the post have been saved.'
+        });
+      } else if (variables.status === 'scheduled') {
+        toast({
+          title: wasScheduled ? 'Schedule updated!' : 'Post scheduled!',
+          description: `Your post will be published on ${format(variables.publishAt, 'PPP')} at ${format(variables.publishAt, 'p')}.`
+        });
+      } else {
+        toast({
+          title: variables.status === 'published'
+            ? (wasPublished ? 'Post updated!' : 'Post published!')
+            : (wasPublished ? 'Post unpublished' : wasScheduled ? 'Post unscheduled' : 'Draft saved!'),
+          description: variables.status === 'published' 
+            ? 'Your post is now live and visible to everyone.'
+            : 'Your draft has been saved successfully.'
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['posts'] });
-      navigate('/');
+      queryClient.invalidateQueries({ queryKey: ['post', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['postSlug'] });
+      queryClient.invalidateQueries({ queryKey: ['seriesPosts'] });
+      if (isEditing) {
+        navigate(`/post/${data.slug}`);
+      } else {
+        navigate(variables.status === 'published' ? '/' : '/dashboard');
+      }
     },
     onError: (error) => {
       toast({
@@ -92,6 +407,58 @@ const CreatePost = () => {
     }
   });
 
+  // Snapshot the saved post unless nothing changed since the last revision
+  const recordRevision = async (post: { id: string; title: string; excerpt: string | null; content: string | null; tags: string[] | null; category_id: string | null }) => {
+    const snapshot = {
+      title: post.title,
+      excerpt: post.excerpt,
+      content: post.content,
+      tags: post.tags,
+      category_id: post.category_id
+    };
+
+    const { data: latest } = await supabase
+      .from('post_revisions')
+      .select('title, excerpt, content, tags, category_id')
+      .eq('post_id', post.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest && JSON.stringify(latest) === JSON.stringify(snapshot)) return;
+
+    const { error } = await supabase
+      .from('post_revisions')
+      .insert([{ ...snapshot, post_id: post.id, user_id: user.id }]);
+
+    // The post itself was saved, so report the missed snapshot without failing the save
+    if (error) {
+      toast({
+        title: 'Error',
+        description: `The post was saved, but its revision history could not be updated: ${error.message}`,
+        variant: 'destructive'
+      });
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ['revisions', post.id] });
+  };
+
+  const restoreRevision = (revision: PostRevision) => {
+    applyDraftFields({
+      ...draftFields,
+      title: revision.title,
+      content: revision.content || '',
+      // Snapshots store the generated excerpt; restore it as generated again
+      excerpt: revision.excerpt === generateExcerpt(revision.content || '') ? '' : revision.excerpt || '',
+      categoryId: revision.category_id || '',
+      tags: revision.tags || []
+    });
+    toast({
+      title: 'Revision restored',
+      description: `Loaded the version from ${format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')}. Save to keep it.`
+    });
+  };
+
   const addTag = () => {
     if (newTag.trim() && !tags.includes(newTag.trim())) {
       setTags([...tags, newTag.trim()]);
@@ -103,7 +470,7 @@ const CreatePost = () => {
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
 
-  const handleSave = (status: 'draft' | 'published') => {
+  const handleSave = (status: PostStatus, publishAt?: Date) => {
     if (!title.trim()) {
       toast({
         title: 'Title required',
@@ -122,151 +489,297 @@ const CreatePost = () => {
       return;
     }
 
-    createPostMutation.mutate({ status });
+    if (slug && !SLUG_PATTERN.test(slug)) {
+      toast({
+        title: 'Invalid URL',
+        description: 'Use only lowercase letters, numbers and single hyphens in the URL.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    savePostMutation.mutate({ status, publishAt });
   };
 
   if (!user) return null;
 
+  if (isEditing && isLoadingPost) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-10 bg-muted rounded"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (isEditing && !existingPost) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Post not found</h1>
+          <Button onClick={() => navigate('/')}>Back to Home</Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isPublished = existingPost?.status === 'published';
+  const isScheduled = existingPost?.status === 'scheduled';
+
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
         <div className="flex items-center justify-between mb-6">
-          <h1 className="text-3xl font-bold">Create New Post</h1>
+          <div>
+            <h1 className="text-3xl font-bold">{isEditing ? 'Edit Post' : 'Create New Post'}</h1>
+            <AutosaveIndicator
+              status={autosave.status}
+              lastSavedAt={canAutosaveToServer ? autosave.lastSavedAt : autosave.lastLocalSaveAt}
+              savesToServer={canAutosaveToServer}
+              className="mt-1"
+            />
+            {isScheduled && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                Scheduled to publish {format(new Date(existingPost.published_at), 'PPP')} at {format(new Date(existingPost.published_at), 'p')}
+              </p>
+            )}
+          </div>
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              onClick={() => setIsPreview(!isPreview)}
-            >
-              <Eye className="h-4 w-4 mr-2" />
-              {isPreview ? 'Edit' : 'Preview'}
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => handleSave('draft')}
-              disabled={createPostMutation.isPending}
-            >
-              <Save className="h-4 w-4 mr-2" />
-              Save Draft
-            </Button>
-            <Button
-              onClick={() => handleSave('published')}
-              disabled={createPostMutation.isPending}
-            >
-              <Send className="h-4 w-4 mr-2" />
-              Publish
-            </Button>
+            {isEditing && (
+              <Button variant="outline" onClick={() => setIsHistoryOpen(true)}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            )}
+            {isEditing && !isPublished && (
+              <Button variant="outline" onClick={() => setIsPreviewLinksOpen(true)}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Share preview
+              </Button>
+            )}
+            {isOwner ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => handleSave('draft')}
+                  disabled={savePostMutation.isPending}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {isPublished ? 'Unpublish' : isScheduled ? 'Unschedule' : 'Save Draft'}
+                </Button>
+                {!isPublished && (
+                  <SchedulePicker
+                    value={isScheduled ? new Date(existingPost.published_at) : null}
+                    onSchedule={(date) => handleSave('scheduled', date)}
+                    disabled={savePostMutation.isPending}
+                  />
+                )}
+                <Button
+                  onClick={() => handleSave('published')}
+                  disabled={savePostMutation.isPending}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {isPublished ? 'Update' : isScheduled ? 'Publish now' : 'Publish'}
+                </Button>
+              </>
+            ) : (
+              <Button
+                onClick={() => handleSave(existingPost.status as PostStatus)}
+                disabled={savePostMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save changes
+              </Button>
+            )}
           </div>
         </div>
 
-        {isPreview ? (
-          <Card>
-            <CardHeader>
-              <CardTitle>{title || 'Untitled Post'}</CardTitle>
-              <p className="text-muted-foreground">{excerpt}</p>
-            </CardHeader>
-            <CardContent>
-              <div className="prose max-w-none">
-                {content.split('\n').map((paragraph, index) => (
-                  <p key={index} className="mb-4">{paragraph}</p>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="space-y-6">
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  placeholder="Enter your post title..."
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  className="text-xl font-semibold"
-                />
-              </div>
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="title">Title</Label>
+              <Input
+                id="title"
+                placeholder="Enter your post title..."
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="text-xl font-semibold"
+              />
+            </div>
 
-              <div>
-                <Label htmlFor="excerpt">Excerpt (Optional)</Label>
-                <Textarea
-                  id="excerpt"
-                  placeholder="Brief description of your post..."
-                  value={excerpt}
-                  onChange={(e) => setExcerpt(e.target.value)}
-                  rows={3}
-                />
-              </div>
+            {isOwner && (
+              <SlugField
+                value={slug}
+                title={title}
+                onChange={setSlug}
+                postId={existingPost?.id}
+                publishedSlug={isPublished ? existingPost.slug : undefined}
+              />
+            )}
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="category">Category</Label>
-                  <Select value={categoryId} onValueChange={setCategoryId}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {categories.map((category) => (
-                        <SelectItem key={category.id} value={category.id}>
-                          {category.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div>
-                  <Label htmlFor="featured-image">Featured Image URL (Optional)</Label>
-                  <Input
-                    id="featured-image"
-                    placeholder="https://example.com/image.jpg"
-                    value={featuredImage}
-                    onChange={(e) => setFeaturedImage(e.target.value)}
-                  />
-                </div>
-              </div>
+            <div>
+              <Label htmlFor="excerpt">Excerpt (Optional)</Label>
+              <p className="text-xs text-muted-foreground mb-1">
+                Leave empty to use the opening text of the post.
+              </p>
+              <Textarea
+                id="excerpt"
+                placeholder={generatedExcerpt || 'Brief description of your post...'}
+                value={excerpt}
+                onChange={(e) => setExcerpt(e.target.value)}
+                rows={3}
+              />
+            </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="tags">Tags</Label>
-                <div className="flex gap-2 mb-2">
-                  <Input
-                    id="tags"
-                    placeholder="Add a tag..."
-                    value={newTag}
-                    onChange={(e) => setNewTag(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
-                  />
-                  <Button type="button" onClick={addTag}>Add</Button>
-                </div>
-                <div className="flex flex-wrap gap-2">
-                  {tags.map((tag) => (
-                    <Badge key={tag} variant="secondary" className="flex items-center gap-1">
-                      {tag}
-                      <X
-                        className="h-3 w-3 cursor-pointer"
-                        onClick={() => removeTag(tag)}
-                      />
-                    </Badge>
-                  ))}
-                </div>
+                <Label htmlFor="category">Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+
+              <FeaturedImageField
+                value={featuredImage}
+                onChange={setFeaturedImage}
+                userId={user.id}
+              />
             </div>
 
+            {/* Series and authors belong to the post owner */}
+            {isOwner && (
+              <SeriesField
+                value={series}
+                onChange={setSeries}
+                userId={user.id}
+                postId={existingPost?.id}
+              />
+            )}
+
+            <CoAuthorsField
+              postId={existingPost?.id}
+              isOwner={isOwner}
+            />
+
             <div>
+              <Label htmlFor="tags">Tags</Label>
+              <div className="flex gap-2 mb-2">
+                <Input
+                  id="tags"
+                  placeholder="Add a tag..."
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                />
+                <Button type="button" onClick={addTag}>Add</Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                    {tag}
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => removeTag(tag)}
+                    />
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
               <Label htmlFor="content">Content</Label>
-              <Textarea
-                id="content"
-                placeholder="Write your post content here... (Markdown supported)"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                rows={20}
-                className="font-mono"
-              />
+              <p className="text-xs text-muted-foreground">
+                {contentStats.wordCount.toLocaleString()} {contentStats.wordCount === 1 ? 'word' : 'words'}
+                {contentStats.readingTimeMinutes > 0 && ` · ${formatReadingTime(contentStats.readingTimeMinutes)}`}
+              </p>
             </div>
+            <LivePreviewEditor
+              value={content}
+              onChange={setContent}
+              userId={user.id}
+              title={title}
+              excerpt={excerpt}
+            />
           </div>
-        )}
+        </div>
       </div>
+
+      {isEditing && (
+        <RevisionHistory
+          postId={id}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          onRestore={restoreRevision}
+        />
+      )}
+
+      {isEditing && (
+        <PreviewLinksDialog
+          postId={id}
+          userId={user.id}
+          open={isPreviewLinksOpen}
+          onOpenChange={setIsPreviewLinksOpen}
+        />
+      )}
+
+      <AlertDialog open={!!recoveryDraft}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Recover unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This browser has changes to "{recoveryDraft?.value.title || 'Untitled Post'}" from{' '}
+              {recoveryDraft && formatDistanceToNow(new Date(recoveryDraft.savedAt), { addSuffix: true })}{' '}
+              that were never saved. Restore them, or discard them and keep the {isEditing ? 'saved version' : 'empty editor'}?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={() => {
+                clearStoredDraft(storageKey);
+                setRecoveryDraft(null);
+              }}
+            >
+              Discard
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                applyDraftFields(recoveryDraft.value);
+                setRecoveryDraft(null);
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Layout>
   );
 };
 
+// Each post, and each visit to /create, gets its own editor instance so no
+// form state or autosave target carries over from the previous one
+const CreatePost = () => {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const editorKey = (location.state as EditorLocationState | null)?.editorKey ?? id ?? location.key;
+
+  return <PostEditor key={editorKey} editorKey={editorKey} />;
+};
+
 export default CreatePost;
\ No newline at end of file
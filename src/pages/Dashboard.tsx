@@ -0,0 +1,528 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Layout from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from '@/components/ui/sidebar';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  Check,
+  Eye,
+  FileText,
+  Heart,
+  MessageCircle,
+  MoreHorizontal,
+  Pencil,
+  PenTool,
+  Search,
+  Send,
+  Trash2,
+  Undo2,
+  X,
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+type StatusFilter = 'all' | 'published' | 'scheduled' | 'draft';
+
+interface DashboardPost {
+  id: string;
+  user_id: string;
+  title: string;
+  slug: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+  categories: {
+    name: string;
+  } | null;
+  likes_count: number;
+  comments_count: number;
+}
+
+const statusFilters: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All posts' },
+  { value: 'published', label: 'Published' },
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'draft', label: 'Drafts' },
+];
+
+const Dashboard = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [postToDelete, setPostToDelete] = useState<DashboardPost | null>(null);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  const { data: posts = [], isLoading } = useQuery({
+    queryKey: ['posts', 'dashboard', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select(`
+          id,
+          user_id,
+          title,
+          slug,
+          status,
+          created_at,
+          updated_at,
+          published_at,
+          likes_count,
+          comments_count,
+          categories (name),
+          post_authors!inner (role)
+        `)
+        // Owned posts and the ones the user has joined as a co-author
+        .eq('post_authors.user_id', user.id)
+        .not('post_authors.accepted_at', 'is', null)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return data as DashboardPost[];
+    },
+    enabled: !!user
+  });
+
+  const { data: invitations = [] } = useQuery({
+    queryKey: ['coauthorInvitations', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('post_authors')
+        .select('id, invited_by, created_at, posts (title)')
+        .eq('user_id', user.id)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const inviterIds = [...new Set(data.map((invitation) => invitation.invited_by).filter(Boolean))];
+      const { data: profilesData } = inviterIds.length
+        ? await supabase.from('profiles').select('user_id, display_name').in('user_id', inviterIds)
+        : { data: [] };
+
+      return data.map((invitation) => ({
+        ...invitation,
+        inviterName: profilesData?.find((profile) => profile.user_id === invitation.invited_by)?.display_name || 'Someone'
+      }));
+    },
+    enabled: !!user
+  });
+
+  const invitationMutation = useMutation({
+    mutationFn: async ({ invitationId, accept }: { invitationId: string; accept: boolean }) => {
+      const { error } = await supabase.rpc('respond_to_coauthor_invitation', {
+        invitation: invitationId,
+        accept
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.accept ? 'Invitation accepted' : 'Invitation declined',
+        description: variables.accept
+          ? 'The post now appears in your dashboard and you can edit it.'
+          : 'You will not be added as a co-author.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['coauthorInvitations'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ post, status }: { post: DashboardPost; status: 'draft' | 'published' }) => {
+      const { error } = await supabase
+        .from('posts')
+        .update({
+          status,
+          // Scheduled posts published early go live now rather than at their future date
+          published_at: status === 'published'
+            ? (post.status === 'published' && post.published_at) || new Date().toISOString()
+            : null
+        })
+        .eq('id', post.id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: variables.status === 'published'
+          ? 'Post published!'
+          : (variables.post.status === 'scheduled' ? 'Post unscheduled' : 'Post unpublished'),
+        description: variables.status === 'published'
+          ? 'Your post is now live and visible to everyone.'
+          : 'Your post has been moved back to drafts.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      queryClient.invalidateQueries({ queryKey: ['post', variables.post.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (postId: string) => {
+      const { error } = await supabase
+        .from('posts')
+        .delete()
+        .eq('id', postId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Post deleted',
+        description: 'Your post has been permanently removed.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const counts = useMemo(() => ({
+    all: posts.length,
+    published: posts.filter(post => post.status === 'published').length,
+    scheduled: posts.filter(post => post.status === 'scheduled').length,
+    draft: posts.filter(post => post.status === 'draft').length
+  }), [posts]);
+
+  const visiblePosts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return posts.filter((post) => {
+      if (statusFilter !== 'all' && post.status !== statusFilter) return false;
+      return !query || post.title.toLowerCase().includes(query);
+    });
+  }, [posts, searchQuery, statusFilter]);
+
+  if (!user) return null;
+
+  return (
+    <Layout>
+      <SidebarProvider className="min-h-[calc(100vh-73px)]">
+        <Sidebar collapsible="none" className="hidden md:flex border-r">
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupLabel>My posts</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {statusFilters.map((filter) => (
+                    <SidebarMenuItem key={filter.value}>
+                      <SidebarMenuButton
+                        isActive={statusFilter === filter.value}
+                        onClick={() => setStatusFilter(filter.value)}
+                      >
+                        <FileText />
+                        <span>{filter.label}</span>
+                      </SidebarMenuButton>
+                      <SidebarMenuBadge>{counts[filter.value]}</SidebarMenuBadge>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </SidebarContent>
+        </Sidebar>
+
+        <div className="flex-1 min-w-0 px-4 py-8 md:px-8">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl font-bold">Dashboard</h1>
+            <Link to="/create">
+              <Button>
+                <PenTool className="h-4 w-4 mr-2" />
+                New Post
+              </Button>
+            </Link>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search your posts..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex gap-2 md:hidden">
+              {statusFilters.map((filter) => (
+                <Button
+                  key={filter.value}
+                  variant={statusFilter === filter.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setStatusFilter(filter.value)}
+                >
+                  {filter.label} ({counts[filter.value]})
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {invitations.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg">Co-author invitations</CardTitle>
+                <CardDescription>Accept an invitation to edit the post and appear in its byline.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {invitations.map((invitation) => (
+                  <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <p className="text-sm">
+                      <span className="font-medium">{invitation.inviterName}</span> invited you to co-author{' '}
+                      <span className="font-medium">"{invitation.posts?.title}"</span>
+                    </p>
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        disabled={invitationMutation.isPending}
+                        onClick={() => invitationMutation.mutate({ invitationId: invitation.id, accept: true })}
+                      >
+                        <Check className="h-4 w-4 mr-2" />
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={invitationMutation.isPending}
+                        onClick={() => invitationMutation.mutate({ invitationId: invitation.id, accept: false })}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {isLoading ? (
+            <div className="animate-pulse space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-12 bg-muted rounded"></div>
+              ))}
+            </div>
+          ) : visiblePosts.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-xl font-semibold mb-2">No posts found</h3>
+              <p className="text-muted-foreground">
+                {searchQuery || statusFilter !== 'all'
+                  ? 'Try adjusting your search or filter criteria.'
+                  : 'Start writing your first post!'
+                }
+              </p>
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="hidden lg:table-cell">Category</TableHead>
+                    <TableHead className="hidden md:table-cell">Published</TableHead>
+                    <TableHead className="hidden md:table-cell">Updated</TableHead>
+                    <TableHead className="text-right">Engagement</TableHead>
+                    <TableHead className="w-12"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visiblePosts.map((post) => {
+                    const isPublished = post.status === 'published';
+                    const isScheduled = post.status === 'scheduled';
+                    const isOwner = post.user_id === user.id;
+                    return (
+                      <TableRow key={post.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/post/${post.id}/edit`} className="hover:text-primary transition-colors">
+                            {post.title}
+                          </Link>
+                          {!isOwner && (
+                            <Badge variant="outline" className="ml-2">Co-author</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={isPublished ? 'default' : isScheduled ? 'secondary' : 'outline'}>
+                            {isPublished ? 'Published' : isScheduled ? 'Scheduled' : 'Draft'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-muted-foreground">
+                          {post.categories?.name || '—'}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-muted-foreground">
+                          {post.published_at
+                            ? format(new Date(post.published_at), isScheduled ? 'MMM d, yyyy HH:mm' : 'MMM d, yyyy')
+                            : '—'}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-muted-foreground">
+                          {format(new Date(post.updated_at), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          <div className="inline-flex items-center space-x-3">
+                            <span className="flex items-center">
+                              <Heart className="h-3 w-3 mr-1" />
+                              {post.likes_count}
+                            </span>
+                            <span className="flex items-center">
+                              <MessageCircle className="h-3 w-3 mr-1" />
+                              {post.comments_count}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" aria-label="Post actions">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onSelect={() => navigate(`/post/${post.id}/edit`)}>
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => navigate(`/post/${post.slug}`)}>
+                                <Eye className="h-4 w-4 mr-2" />
+                                {isPublished ? 'View' : 'Preview'}
+                              </DropdownMenuItem>
+                              {/* Publishing and deleting stay with the post's owner */}
+                              {isOwner && (
+                                <>
+                                  <DropdownMenuItem
+                                    disabled={statusMutation.isPending}
+                                    onSelect={() => statusMutation.mutate({
+                                      post,
+                                      status: isPublished ? 'draft' : 'published'
+                                    })}
+                                  >
+                                    {isPublished ? (
+                                      <Undo2 className="h-4 w-4 mr-2" />
+                                    ) : (
+                                      <Send className="h-4 w-4 mr-2" />
+                                    )}
+                                    {isPublished ? 'Unpublish' : isScheduled ? 'Publish now' : 'Publish'}
+                                  </DropdownMenuItem>
+                                  {isScheduled && (
+                                    <DropdownMenuItem
+                                      disabled={statusMutation.isPending}
+                                      onSelect={() => statusMutation.mutate({ post, status: 'draft' })}
+                                    >
+                                      <Undo2 className="h-4 w-4 mr-2" />
+                                      Unschedule
+                                    </DropdownMenuItem>
+                                  )}
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onSelect={() => setPostToDelete(post)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </SidebarProvider>
+
+      <AlertDialog open={!!postToDelete} onOpenChange={(open) => !open && setPostToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{postToDelete?.title}" and all of its comments and likes will be permanently deleted.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => postToDelete && deleteMutation.mutate(postToDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default Dashboard;
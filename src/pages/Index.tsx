@@ -1,83 +1,247 @@
-import { useEffect, useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import Layout from '@/components/Layout';
 import BlogCard from '@/components/BlogCard';
+import PagePagination from '@/components/PagePagination';
+import { fetchPostAuthors, type BylineAuthor } from '@/lib/authors';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
-import { Search, Filter } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Search, Filter, Rows3, ListOrdered } from 'lucide-react';
+
+const PAGE_SIZE = 12;
+
+type FeedView = 'scroll' | 'pages';
 
 interface Post {
   id: string;
   title: string;
+  slug: string;
   excerpt: string;
   featured_image_url?: string;
   category_id: string;
   tags: string[];
   published_at: string;
-  profiles: {
-    display_name: string;
-  } | null;
+  user_id: string;
+  likes_count: number;
+  comments_count: number;
+  reading_time_minutes: number;
+  snippet?: string;
+  authors: BylineAuthor[];
   categories: {
     name: string;
     slug: string;
   } | null;
 }
 
+// Browsing pages by (published_at, id) so new posts never shift what the
+// next page returns; ranked search results can only be paged by offset.
+type FeedCursor =
+  | { kind: 'keyset'; publishedAt: string; id: string }
+  | { kind: 'offset'; offset: number };
+
+interface FeedPage {
+  posts: Post[];
+  nextCursor: FeedCursor | null;
+}
+
+const postColumns = `
+  id,
+  title,
+  slug,
+  excerpt,
+  featured_image_url,
+  category_id,
+  tags,
+  published_at,
+  user_id,
+  likes_count,
+  comments_count,
+  reading_time_minutes,
+  categories (name, slug)
+`;
+
+const attachAuthors = async (postsData: Omit<Post, 'authors'>[]) => {
+  const authorsByPost = await fetchPostAuthors(postsData.map(post => post.id));
+
+  return postsData.map(post => ({
+    ...post,
+    authors: authorsByPost[post.id] || []
+  })) as Post[];
+};
+
+const publishedPostsQuery = (categoryId: string, count?: 'exact') => {
+  let query = supabase
+    .from('posts')
+    .select(postColumns, count ? { count } : undefined)
+    .eq('status', 'published')
+    .order('published_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (categoryId) {
+    query = query.eq('category_id', categoryId);
+  }
+
+  return query;
+};
+
+const fetchPostsAfter = async (categoryId: string, cursor: FeedCursor | null) => {
+  let query = publishedPostsQuery(categoryId).limit(PAGE_SIZE);
+
+  if (cursor?.kind === 'keyset') {
+    query = query.or(
+      `published_at.lt."${cursor.publishedAt}",and(published_at.eq."${cursor.publishedAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+const fetchPostsPage = async (categoryId: string, page: number) => {
+  const from = (page - 1) * PAGE_SIZE;
+  const { data, error, count } = await publishedPostsQuery(categoryId, 'exact')
+    .range(from, from + PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { posts: data, total: count || 0 };
+};
+
+// Ranked full-text search; results come back without the category join, so
+// resolve category names with a follow-up query.
+const searchPosts = async (searchQuery: string, categoryId: string, offset: number) => {
+  const { data, error } = await supabase.rpc('search_posts', {
+    search_query: searchQuery,
+    category: categoryId || undefined,
+    result_limit: PAGE_SIZE,
+    result_offset: offset
+  });
+  if (error) throw error;
+
+  const categoryIds = [...new Set(data?.map(post => post.category_id).filter(Boolean) || [])];
+  const { data: categoriesData, error: categoriesError } = categoryIds.length
+    ? await supabase.from('categories').select('id, name, slug').in('id', categoryIds)
+    : { data: [], error: null };
+  if (categoriesError) throw categoriesError;
+
+  return data?.map(post => {
+    const category = categoriesData?.find(c => c.id === post.category_id);
+    return {
+      ...post,
+      categories: category ? { name: category.name, slug: category.slug } : null
+    };
+  }) || [];
+};
+
+const countSearchPosts = async (searchQuery: string, categoryId: string) => {
+  const { data, error } = await supabase.rpc('count_search_posts', {
+    search_query: searchQuery,
+    category: categoryId || undefined
+  });
+  if (error) throw error;
+  return data || 0;
+};
+
 const Index = () => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get('q') || '';
+  const selectedCategory = searchParams.get('category') || '';
+  const view: FeedView = searchParams.get('view') === 'pages' ? 'pages' : 'scroll';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const trimmedQuery = searchQuery.trim();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const { data: posts = [], isLoading } = useQuery({
-    queryKey: ['posts', searchQuery, selectedCategory],
-    queryFn: async () => {
-      let query = supabase
-        .from('posts')
-        .select(`
-          id,
-          title,
-          excerpt,
-          featured_image_url,
-          category_id,
-          tags,
-          published_at,
-          user_id,
-          categories (name, slug)
-        `)
-        .eq('status', 'published')
-        .order('published_at', { ascending: false });
-
-      if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,content.ilike.%${searchQuery}%`);
+  // Any change other than the page number starts again from page one
+  const updateParams = (updates: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
       }
+    });
+    if (!('page' in updates)) next.delete('page');
+    setSearchParams(next, { replace: 'q' in updates });
+  };
 
-      if (selectedCategory) {
-        query = query.eq('category_id', selectedCategory);
+  const feedQuery = useInfiniteQuery({
+    queryKey: ['posts', 'feed', trimmedQuery, selectedCategory],
+    queryFn: async ({ pageParam }): Promise<FeedPage> => {
+      if (trimmedQuery) {
+        const offset = pageParam?.kind === 'offset' ? pageParam.offset : 0;
+        const results = await searchPosts(trimmedQuery, selectedCategory, offset);
+        return {
+          posts: await attachAuthors(results),
+          nextCursor: results.length === PAGE_SIZE
+            ? { kind: 'offset', offset: offset + PAGE_SIZE }
+            : null
+        };
       }
 
-      const { data: postsData, error } = await query;
-      if (error) throw error;
-      
-      // Fetch user profiles separately
-      const userIds = [...new Set(postsData?.map(post => post.user_id) || [])];
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, display_name')
-        .in('user_id', userIds);
-      
-      if (profilesError) throw profilesError;
-      
-      // Merge the data
-      const postsWithProfiles = postsData?.map(post => ({
-        ...post,
-        profiles: profilesData?.find(profile => profile.user_id === post.user_id) || null
-      })) || [];
-      
-      return postsWithProfiles as Post[];
-    }
+      const postsData = await fetchPostsAfter(selectedCategory, pageParam);
+      const last = postsData[postsData.length - 1];
+      return {
+        posts: await attachAuthors(postsData),
+        nextCursor: postsData.length === PAGE_SIZE
+          ? { kind: 'keyset', publishedAt: last.published_at, id: last.id }
+          : null
+      };
+    },
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: view === 'scroll'
   });
 
+  const pagedQuery = useQuery({
+    queryKey: ['posts', 'page', trimmedQuery, selectedCategory, page],
+    queryFn: async () => {
+      if (trimmedQuery) {
+        const [results, total] = await Promise.all([
+          searchPosts(trimmedQuery, selectedCategory, (page - 1) * PAGE_SIZE),
+          countSearchPosts(trimmedQuery, selectedCategory)
+        ]);
+        return { posts: await attachAuthors(results), total };
+      }
+
+      const { posts: postsData, total } = await fetchPostsPage(selectedCategory, page);
+      return { posts: await attachAuthors(postsData), total };
+    },
+    enabled: view === 'pages',
+    placeholderData: keepPreviousData
+  });
+
+  const { fetchNextPage, hasNextPage, isFetchingNextPage } = feedQuery;
+
+  // Load the next page as the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (view !== 'scroll' || !sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [view, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const posts = view === 'scroll'
+    ? feedQuery.data?.pages.flatMap(feedPage => feedPage.posts) || []
+    : pagedQuery.data?.posts || [];
+  const isLoading = view === 'scroll' ? feedQuery.isLoading : pagedQuery.isLoading;
+  const pageCount = Math.ceil((pagedQuery.data?.total || 0) / PAGE_SIZE);
+
+  const handlePageChange = (nextPage: number) => {
+    updateParams({ page: nextPage === 1 ? '' : String(nextPage) });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const { data: categories = [] } = useQuery({
     queryKey: ['categories'],
     queryFn: async () => {
@@ -111,18 +275,18 @@ const Index = () => {
             <Input
               placeholder="Search posts..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => updateParams({ q: e.target.value })}
               className="pl-10"
             />
           </div>
-          
+
           <div className="flex items-center gap-2">
             <Filter className="h-4 w-4 text-muted-foreground" />
             <div className="flex flex-wrap gap-2">
               <Button
                 variant={selectedCategory === '' ? 'default' : 'outline'}
                 size="sm"
-                onClick={() => setSelectedCategory('')}
+                onClick={() => updateParams({ category: '' })}
               >
                 All
               </Button>
@@ -131,13 +295,27 @@ const Index = () => {
                   key={category.id}
                   variant={selectedCategory === category.id ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setSelectedCategory(category.id)}
+                  onClick={() => updateParams({ category: category.id })}
                 >
                   {category.name}
                 </Button>
               ))}
             </div>
           </div>
+
+          <ToggleGroup
+            type="single"
+            value={view}
+            onValueChange={(value) => value && updateParams({ view: value === 'pages' ? 'pages' : '' })}
+            aria-label="Feed layout"
+          >
+            <ToggleGroupItem value="scroll" size="sm" aria-label="Continuous scrolling">
+              <Rows3 className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="pages" size="sm" aria-label="Numbered pages">
+              <ListOrdered className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
         </div>
 
         {/* Blog Posts Grid */}
@@ -153,28 +331,55 @@ const Index = () => {
           <div className="text-center py-12">
             <h3 className="text-xl font-semibold mb-2">No posts found</h3>
             <p className="text-muted-foreground">
-              {searchQuery || selectedCategory 
+              {searchQuery || selectedCategory
                 ? 'Try adjusting your search or filter criteria.'
                 : 'Be the first to create a post!'
               }
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {posts.map((post) => (
-              <BlogCard
-                key={post.id}
-                id={post.id}
-                title={post.title}
-                excerpt={post.excerpt || ''}
-                featuredImage={post.featured_image_url}
-                category={post.categories}
-                tags={post.tags}
-                authorName={post.profiles?.display_name || 'Anonymous'}
-                publishedAt={post.published_at}
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {posts.map((post) => (
+                <BlogCard
+                  key={post.id}
+                  slug={post.slug}
+                  title={post.title}
+                  excerpt={post.excerpt || ''}
+                  featuredImage={post.featured_image_url}
+                  category={post.categories}
+                  tags={post.tags}
+                  authors={post.authors}
+                  publishedAt={post.published_at}
+                  likesCount={post.likes_count}
+                  commentsCount={post.comments_count}
+                  readingTimeMinutes={post.reading_time_minutes}
+                  snippet={post.snippet}
+                />
+              ))}
+            </div>
+
+            {view === 'scroll' ? (
+              <div ref={loadMoreRef} className="flex justify-center mt-8">
+                {hasNextPage && (
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <PagePagination
+                page={page}
+                pageCount={pageCount}
+                onPageChange={handlePageChange}
+                className="mt-8"
               />
-            ))}
-          </div>
+            )}
+          </>
         )}
       </div>
     </Layout>
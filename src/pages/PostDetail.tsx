@@ -1,22 +1,52 @@
-import { useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import Layout from '@/components/Layout';
+import MarkdownContent from '@/components/MarkdownContent';
+import AuthorsByline from '@/components/AuthorsByline';
+import CommentSection from '@/components/CommentSection';
+import TableOfContents from '@/components/TableOfContents';
+import SeriesNavigation from '@/components/SeriesNavigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
-import { Calendar, User, Heart, MessageCircle, ArrowLeft } from 'lucide-react';
+import { useActiveHeading } from '@/hooks/useActiveHeading';
+import { extractHeadings, scrollToHeading } from '@/lib/headings';
+import { formatReadingTime } from '@/lib/readingStats';
+import { fetchPostAuthors } from '@/lib/authors';
+import { cn } from '@/lib/utils';
+import { Calendar, Clock, Heart, MessageCircle, ArrowLeft, Pencil, ChevronDown, List } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 const PostDetail = () => {
-  const { id } = useParams<{ id: string }>();
+  const { slug } = useParams<{ slug: string }>();
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { hash } = useLocation();
   const queryClient = useQueryClient();
-  const [newComment, setNewComment] = useState('');
+  const [isTocOpen, setIsTocOpen] = useState(false);
+
+  // Old slugs and id links resolve to the post's current slug
+  const { data: resolved, isLoading: isResolving } = useQuery({
+    queryKey: ['postSlug', slug],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('resolve_post_slug', { lookup: slug });
+
+      if (error) throw error;
+      return data?.[0] || null;
+    },
+    enabled: !!slug
+  });
+  const id = resolved?.id;
+
+  useEffect(() => {
+    if (resolved && resolved.slug !== slug) {
+      navigate(`/post/${resolved.slug}`, { replace: true });
+    }
+  }, [resolved, slug, navigate]);
 
   const { data: post, isLoading } = useQuery({
     queryKey: ['post', id],
@@ -34,58 +64,17 @@ const PostDetail = () => {
 
       if (error) throw error;
       
-      // Fetch user profile separately
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('display_name')
-        .eq('user_id', postData.user_id)
-        .single();
+      // Fetch the byline separately
+      const authorsByPost = await fetchPostAuthors([postData.id]);
 
-      if (profileError) console.warn('Profile not found');
-      
       return {
         ...postData,
-        profiles: profileData
+        authors: authorsByPost[postData.id] || []
       };
     },
     enabled: !!id
   });
 
-  const { data: comments = [] } = useQuery({
-    queryKey: ['comments', id],
-    queryFn: async () => {
-      if (!id) return [];
-      
-      const { data: commentsData, error } = await supabase
-        .from('comments')
-        .select('*')
-        .eq('post_id', id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      
-      // Fetch user profiles separately
-      const userIds = [...new Set(commentsData?.map(comment => comment.user_id) || [])];
-      if (userIds.length === 0) return [];
-      
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, display_name')
-        .in('user_id', userIds);
-      
-      if (profilesError) console.warn('Profiles not found');
-      
-      // Merge the data
-      const commentsWithProfiles = commentsData?.map(comment => ({
-        ...comment,
-        profiles: profilesData?.find(profile => profile.user_id === comment.user_id) || null
-      })) || [];
-      
-      return commentsWithProfiles;
-    },
-    enabled: !!id
-  });
-
   const { data: isLiked = false } = useQuery({
     queryKey: ['like', id, user?.id],
     queryFn: async () => {
@@ -103,22 +92,6 @@ const PostDetail = () => {
     enabled: !!id && !!user
   });
 
-  const { data: likesCount = 0 } = useQuery({
-    queryKey: ['likesCount', id],
-    queryFn: async () => {
-      if (!id) return 0;
-      
-      const { count, error } = await supabase
-        .from('likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('post_id', id);
-
-      if (error) throw error;
-      return count || 0;
-    },
-    enabled: !!id
-  });
-
   const likeMutation = useMutation({
     mutationFn: async () => {
       if (!user || !id) throw new Error('User not authenticated');
@@ -139,43 +112,26 @@ const PostDetail = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['like', id, user?.id] });
-      queryClient.invalidateQueries({ queryKey: ['likesCount', id] });
+      queryClient.invalidateQueries({ queryKey: ['post', id] });
     }
   });
 
-  const commentMutation = useMutation({
-    mutationFn: async (content: string) => {
-      if (!user || !id) throw new Error('User not authenticated');
-
-      const { error } = await supabase
-        .from('comments')
-        .insert([{ post_id: id, user_id: user.id, content }]);
-
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      setNewComment('');
-      queryClient.invalidateQueries({ queryKey: ['comments', id] });
-      toast({
-        title: 'Comment added!',
-        description: 'Your comment has been posted successfully.'
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: 'Error',
-        description: error.message,
-        variant: 'destructive'
-      });
-    }
-  });
+  // Deeper levels would make the contents longer than it is useful
+  const headings = useMemo(
+    () => extractHeadings(post?.content || '').filter((heading) => heading.level <= 4),
+    [post?.content]
+  );
+  const hasToc = headings.length >= 2;
+  const tocIds = useMemo(() => (hasToc ? headings.map((heading) => heading.id) : []), [headings, hasToc]);
+  const activeHeadingId = useActiveHeading(tocIds);
 
-  const handleAddComment = () => {
-    if (!newComment.trim()) return;
-    commentMutation.mutate(newComment.trim());
-  };
+  // The content renders after the post loads, too late for the browser's own jump to #anchor
+  const postId = post?.id;
+  useEffect(() => {
+    if (postId && hash) scrollToHeading(decodeURIComponent(hash.slice(1)), 'auto');
+  }, [postId, hash]);
 
-  if (isLoading) {
+  if (isResolving || isLoading) {
     return (
       <Layout>
         <div className="container mx-auto px-4 py-8">
@@ -207,143 +163,136 @@ const PostDetail = () => {
 
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className={cn('container mx-auto px-4 py-8', hasToc ? 'max-w-6xl' : 'max-w-4xl')}>
         <Link to="/" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-6">
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to posts
         </Link>
 
-        <article className="space-y-6">
-          {/* Header */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              {post.categories && (
-                <Badge variant="secondary">{post.categories.name}</Badge>
-              )}
-              <div className="flex items-center text-sm text-muted-foreground">
-                <Calendar className="h-3 w-3 mr-1" />
-                {formatDistanceToNow(new Date(post.published_at || post.created_at), { addSuffix: true })}
-              </div>
-            </div>
+        <div className={cn(hasToc && 'lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-10')}>
+          <div className="min-w-0">
+            <article className="space-y-6">
+              {/* Header */}
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {post.categories && (
+                      <Badge variant="secondary">{post.categories.name}</Badge>
+                    )}
+                    {post.status !== 'published' && (
+                      <Badge variant="outline">{post.status === 'scheduled' ? 'Scheduled' : 'Draft'}</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    <div className="flex items-center">
+                      <Calendar className="h-3 w-3 mr-1" />
+                      {formatDistanceToNow(new Date(post.published_at || post.created_at), { addSuffix: true })}
+                    </div>
+                    {post.reading_time_minutes > 0 && (
+                      <div className="flex items-center" title={`${post.word_count.toLocaleString()} words`}>
+                        <Clock className="h-3 w-3 mr-1" />
+                        {formatReadingTime(post.reading_time_minutes)}
+                      </div>
+                    )}
+                  </div>
+                </div>
             
-            <h1 className="text-4xl font-bold leading-tight">{post.title}</h1>
+                <h1 className="text-4xl font-bold leading-tight">{post.title}</h1>
             
-            <div className="flex items-center justify-between">
-              <div className="flex items-center text-muted-foreground">
-                <User className="h-4 w-4 mr-2" />
-                {post.profiles?.display_name || 'Anonymous'}
-              </div>
+                <div className="flex items-center justify-between">
+                  <AuthorsByline
+                    authors={post.authors}
+                    size="md"
+                    className="text-muted-foreground"
+                  />
               
-              <div className="flex items-center space-x-4">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => user ? likeMutation.mutate() : toast({ title: 'Please sign in to like posts', variant: 'destructive' })}
-                  className={isLiked ? 'text-red-500' : ''}
-                >
-                  <Heart className={`h-4 w-4 mr-1 ${isLiked ? 'fill-current' : ''}`} />
-                  {likesCount}
-                </Button>
-                <div className="flex items-center text-muted-foreground">
-                  <MessageCircle className="h-4 w-4 mr-1" />
-                  {comments.length}
+                  <div className="flex items-center space-x-4">
+                    {post.authors.some((author) => author.userId === user?.id) && (
+                      <Link to={`/post/${post.id}/edit`}>
+                        <Button variant="outline" size="sm">
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      </Link>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => user ? likeMutation.mutate() : toast({ title: 'Please sign in to like posts', variant: 'destructive' })}
+                      className={isLiked ? 'text-red-500' : ''}
+                    >
+                      <Heart className={`h-4 w-4 mr-1 ${isLiked ? 'fill-current' : ''}`} />
+                      {post.likes_count}
+                    </Button>
+                    <div className="flex items-center text-muted-foreground">
+                      <MessageCircle className="h-4 w-4 mr-1" />
+                      {post.comments_count}
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
 
-          {/* Featured Image */}
-          {post.featured_image_url && (
-            <div className="aspect-video bg-muted rounded-lg overflow-hidden">
-              <img
-                src={post.featured_image_url}
-                alt={post.title}
-                className="w-full h-full object-cover"
-              />
-            </div>
-          )}
+              {/* Featured Image */}
+              {post.featured_image_url && (
+                <div className="aspect-video bg-muted rounded-lg overflow-hidden">
+                  <img
+                    src={post.featured_image_url}
+                    alt={post.title}
+                    className="w-full h-full object-cover"
+                  />
+                </div>
+              )}
 
-          {/* Content */}
-          <div className="prose prose-lg max-w-none">
-            {post.content.split('\n').map((paragraph, index) => (
-              <p key={index} className="mb-4 leading-relaxed">
-                {paragraph}
-              </p>
-            ))}
-          </div>
+              {post.series_id && <SeriesNavigation seriesId={post.series_id} postId={post.id} />}
 
-          {/* Tags */}
-          {post.tags && post.tags.length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {post.tags.map((tag) => (
-                <Badge key={tag} variant="outline">
-                  #{tag}
-                </Badge>
-              ))}
-            </div>
-          )}
-        </article>
+              {/* Contents, shown in the sidebar on larger screens */}
+              {hasToc && (
+                <Collapsible open={isTocOpen} onOpenChange={setIsTocOpen} className="rounded-lg border lg:hidden">
+                  <CollapsibleTrigger asChild>
+                    <button type="button" className="flex w-full items-center justify-between px-4 py-3 text-sm font-semibold">
+                      <span className="flex items-center">
+                        <List className="h-4 w-4 mr-2" />
+                        On this page
+                      </span>
+                      <ChevronDown className={cn('h-4 w-4 transition-transform', isTocOpen && 'rotate-180')} />
+                    </button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="px-4 pb-4">
+                    <TableOfContents
+                      headings={headings}
+                      activeId={activeHeadingId}
+                      onNavigate={() => setIsTocOpen(false)}
+                    />
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
 
-        {/* Comments Section */}
-        <div className="mt-12 space-y-6">
-          <h2 className="text-2xl font-bold">Comments ({comments.length})</h2>
-          
-          {/* Add Comment */}
-          {user ? (
-            <Card>
-              <CardContent className="pt-6">
-                <div className="space-y-4">
-                  <Textarea
-                    placeholder="Write a comment..."
-                    value={newComment}
-                    onChange={(e) => setNewComment(e.target.value)}
-                    rows={3}
-                  />
-                  <Button 
-                    onClick={handleAddComment}
-                    disabled={!newComment.trim() || commentMutation.isPending}
-                  >
-                    {commentMutation.isPending ? 'Posting...' : 'Post Comment'}
-                  </Button>
+              {/* Content */}
+              <MarkdownContent content={post.content || ''} className="prose-lg" />
+
+              {/* Tags */}
+              {post.tags && post.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {post.tags.map((tag) => (
+                    <Badge key={tag} variant="outline">
+                      #{tag}
+                    </Badge>
+                  ))}
                 </div>
-              </CardContent>
-            </Card>
-          ) : (
-            <Card>
-              <CardContent className="pt-6 text-center">
-                <p className="text-muted-foreground mb-4">
-                  Please sign in to leave a comment
-                </p>
-                <Link to="/auth">
-                  <Button>Sign In</Button>
-                </Link>
-              </CardContent>
-            </Card>
-          )}
+              )}
+            </article>
 
-          {/* Comments List */}
-          <div className="space-y-4">
-            {comments.map((comment) => (
-              <Card key={comment.id}>
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <User className="h-4 w-4 mr-2" />
-                      <span className="font-medium">
-                        {comment.profiles?.display_name || 'Anonymous'}
-                      </span>
-                    </div>
-                    <span className="text-sm text-muted-foreground">
-                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                    </span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="leading-relaxed">{comment.content}</p>
-                </CardContent>
-              </Card>
-            ))}
+            <CommentSection postId={post.id} postAuthorId={post.user_id} />
           </div>
+
+          {hasToc && (
+            <aside className="hidden lg:block">
+              <div className="sticky top-8 max-h-[calc(100vh-4rem)] overflow-y-auto">
+                <p className="mb-3 text-sm font-semibold">On this page</p>
+                <TableOfContents headings={headings} activeId={activeHeadingId} />
+              </div>
+            </aside>
+          )}
         </div>
       </div>
     </Layout>
@@ -0,0 +1,151 @@
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Layout from '@/components/Layout';
+import MarkdownContent from '@/components/MarkdownContent';
+import AuthorsByline from '@/components/AuthorsByline';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { formatReadingTime } from '@/lib/readingStats';
+import type { BylineAuthor } from '@/lib/authors';
+import { ArrowLeft, Calendar, Clock, Eye } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const Preview = () => {
+  const { token } = useParams<{ token: string }>();
+
+  // Drafts aren't readable under the posts policies; the RPC checks the token instead
+  const { data: post, isLoading } = useQuery({
+    queryKey: ['preview', token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_post_preview', { preview_token: token });
+
+      if (error) throw error;
+      const preview = data?.[0];
+      return preview ? { ...preview, authors: preview.authors as unknown as BylineAuthor[] } : null;
+    },
+    enabled: !!token
+  });
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!post) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Preview not available</h1>
+          <p className="text-muted-foreground mb-6">
+            This preview link is invalid, has expired or was revoked by the author.
+          </p>
+          <Link to="/">
+            <Button>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Button>
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isPublished = post.status === 'published';
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Alert className="mb-8">
+          <Eye className="h-4 w-4" />
+          <AlertTitle>{isPublished ? 'This post has been published' : 'Draft preview'}</AlertTitle>
+          <AlertDescription>
+            {isPublished ? (
+              <Link to={`/post/${post.slug}`} className="underline underline-offset-4 hover:text-primary">
+                Read the published version
+              </Link>
+            ) : (
+              <>
+                This post isn't published yet and may change before it goes live. Please don't share this link.
+                {post.expires_at && ` The link expires ${formatDistanceToNow(new Date(post.expires_at), { addSuffix: true })}.`}
+              </>
+            )}
+          </AlertDescription>
+        </Alert>
+
+        <article className="space-y-6">
+          {/* Header */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {post.category_name && (
+                  <Badge variant="secondary">{post.category_name}</Badge>
+                )}
+                {!isPublished && (
+                  <Badge variant="outline">{post.status === 'scheduled' ? 'Scheduled' : 'Draft'}</Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                <div className="flex items-center">
+                  <Calendar className="h-3 w-3 mr-1" />
+                  Updated {formatDistanceToNow(new Date(post.updated_at), { addSuffix: true })}
+                </div>
+                {post.reading_time_minutes > 0 && (
+                  <div className="flex items-center" title={`${post.word_count.toLocaleString()} words`}>
+                    <Clock className="h-3 w-3 mr-1" />
+                    {formatReadingTime(post.reading_time_minutes)}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <h1 className="text-4xl font-bold leading-tight">{post.title}</h1>
+
+            <AuthorsByline
+              authors={post.authors}
+              size="md"
+              className="text-muted-foreground"
+            />
+          </div>
+
+          {/* Featured Image */}
+          {post.featured_image_url && (
+            <div className="aspect-video bg-muted rounded-lg overflow-hidden">
+              <img
+                src={post.featured_image_url}
+                alt={post.title}
+                className="w-full h-full object-cover"
+              />
+            </div>
+          )}
+
+          {/* Content */}
+          <MarkdownContent content={post.content || ''} className="prose-lg" />
+
+          {/* Tags */}
+          {post.tags && post.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {post.tags.map((tag) => (
+                <Badge key={tag} variant="outline">
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </article>
+      </div>
+    </Layout>
+  );
+};
+
+export default Preview;
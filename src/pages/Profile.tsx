@@ -0,0 +1,253 @@
+import { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import Layout from '@/components/Layout';
+import AuthorByline from '@/components/AuthorByline';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { ExternalLink, Save } from 'lucide-react';
+
+const BIO_MAX_LENGTH = 300;
+
+const profileSchema = z.object({
+  display_name: z
+    .string()
+    .trim()
+    .min(2, 'Display name must be at least 2 characters.')
+    .max(50, 'Display name must be at most 50 characters.'),
+  bio: z
+    .string()
+    .trim()
+    .max(BIO_MAX_LENGTH, `Bio must be at most ${BIO_MAX_LENGTH} characters.`),
+  avatar_url: z
+    .string()
+    .trim()
+    .url('Avatar must be a valid URL.')
+    .or(z.literal(''))
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const Profile = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      display_name: '',
+      bio: '',
+      avatar_url: ''
+    }
+  });
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ['profile', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user
+  });
+
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      display_name: profile.display_name || '',
+      bio: profile.bio || '',
+      avatar_url: profile.avatar_url || ''
+    });
+  }, [profile, form]);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (values: ProfileFormValues) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .upsert({
+          user_id: user.id,
+          display_name: values.display_name,
+          bio: values.bio || null,
+          avatar_url: values.avatar_url || null
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Profile updated!',
+        description: 'Your changes will appear on all of your posts.'
+      });
+      queryClient.invalidateQueries({ queryKey: ['profile'] });
+      queryClient.invalidateQueries({ queryKey: ['posts'] });
+      queryClient.invalidateQueries({ queryKey: ['post'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const displayName = form.watch('display_name');
+  const avatarUrl = form.watch('avatar_url');
+  const previewName = displayName.trim() || 'Anonymous';
+
+  if (!user) return null;
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Profile Settings</h1>
+          <Link to={`/author/${user.id}`}>
+            <Button variant="outline">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View Public Page
+            </Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Author details</CardTitle>
+              <CardDescription>Signed in as {user.email}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="animate-pulse space-y-4">
+                  <div className="h-10 bg-muted rounded"></div>
+                  <div className="h-24 bg-muted rounded"></div>
+                  <div className="h-10 bg-muted rounded"></div>
+                </div>
+              ) : (
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit((values) => updateProfileMutation.mutate(values))}
+                    className="space-y-6"
+                  >
+                    <FormField
+                      control={form.control}
+                      name="display_name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Display name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Your name" {...field} />
+                          </FormControl>
+                          <FormDescription>Shown as the author on your posts and comments.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="bio"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Bio</FormLabel>
+                          <FormControl>
+                            <Textarea placeholder="Tell readers a little about yourself..." rows={4} {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            {field.value.length}/{BIO_MAX_LENGTH} characters
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="avatar_url"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Avatar URL</FormLabel>
+                          <FormControl>
+                            <Input placeholder="https://example.com/avatar.jpg" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button type="submit" disabled={updateProfileMutation.isPending}>
+                      <Save className="h-4 w-4 mr-2" />
+                      {updateProfileMutation.isPending ? 'Saving...' : 'Save Profile'}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Byline preview</CardTitle>
+              <CardDescription>How readers will see you</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase text-muted-foreground">Post cards</p>
+                <AuthorByline
+                  name={previewName}
+                  avatarUrl={avatarUrl}
+                  className="text-sm text-muted-foreground"
+                />
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase text-muted-foreground">Post pages</p>
+                <AuthorByline
+                  name={previewName}
+                  avatarUrl={avatarUrl}
+                  size="md"
+                  className="text-muted-foreground"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Layout from '@/components/Layout';
+import AuthorByline from '@/components/AuthorByline';
+import SeriesDialog from '@/components/SeriesDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { formatReadingTime } from '@/lib/readingStats';
+import { ArrowLeft, BookOpen, Calendar, Clock, FileText, Layers, Pencil } from 'lucide-react';
+import { format } from 'date-fns';
+
+const Series = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { user } = useAuth();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const { data: series, isLoading } = useQuery({
+    queryKey: ['series', 'slug', slug],
+    queryFn: async () => {
+      const { data: seriesData, error } = await supabase
+        .from('series')
+        .select('*')
+        .eq('slug', slug)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!seriesData) return null;
+
+      const { data: profileData, error: profileError } = await supabase
+        .from('profiles')
+        .select('display_name, avatar_url')
+        .eq('user_id', seriesData.user_id)
+        .maybeSingle();
+
+      if (profileError) console.warn('Profile not found');
+
+      return {
+        ...seriesData,
+        profiles: profileData
+      };
+    },
+    enabled: !!slug
+  });
+
+  const { data: posts = [], isLoading: isLoadingPosts } = useQuery({
+    queryKey: ['posts', 'series', series?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('posts')
+        .select('id, title, slug, excerpt, published_at, reading_time_minutes')
+        .eq('series_id', series.id)
+        .eq('status', 'published')
+        .order('series_position');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!series
+  });
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-2/3"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+            <div className="h-24 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!series) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">Series not found</h1>
+          <Link to="/">
+            <Button>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Home
+            </Button>
+          </Link>
+        </div>
+      </Layout>
+    );
+  }
+
+  const totalMinutes = posts.reduce((total, post) => total + post.reading_time_minutes, 0);
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link to="/" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to posts
+        </Link>
+
+        {/* Series Header */}
+        <Card className="mb-8">
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <p className="flex items-center text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  <Layers className="h-3 w-3 mr-1" />
+                  Series
+                </p>
+                <h1 className="text-3xl font-bold">{series.title}</h1>
+              </div>
+              {user?.id === series.user_id && (
+                <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+              )}
+            </div>
+
+            {series.description && (
+              <p className="text-muted-foreground">{series.description}</p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              <AuthorByline
+                name={series.profiles?.display_name || 'Anonymous'}
+                userId={series.user_id}
+                avatarUrl={series.profiles?.avatar_url}
+              />
+              <div className="flex items-center">
+                <FileText className="h-4 w-4 mr-1" />
+                {posts.length} {posts.length === 1 ? 'part' : 'parts'}
+              </div>
+              {totalMinutes > 0 && (
+                <div className="flex items-center">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {totalMinutes} min in total
+                </div>
+              )}
+            </div>
+
+            {posts.length > 0 && (
+              <Link to={`/post/${posts[0].slug}`} className="inline-block">
+                <Button>
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Start reading
+                </Button>
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Parts */}
+        {isLoadingPosts ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="bg-muted rounded-lg h-24"></div>
+              </div>
+            ))}
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold mb-2">No parts yet</h3>
+            <p className="text-muted-foreground">
+              Nothing in this series has been published yet.
+            </p>
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {posts.map((post, index) => (
+              <li key={post.id}>
+                <Link
+                  to={`/post/${post.slug}`}
+                  className="group flex gap-4 rounded-lg border p-4 hover:bg-muted/50 transition-colors"
+                >
+                  <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 text-sm font-semibold text-primary">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0 space-y-1">
+                    <h2 className="font-semibold group-hover:text-primary transition-colors">{post.title}</h2>
+                    {post.excerpt && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{post.excerpt}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                      {post.published_at && (
+                        <div className="flex items-center">
+                          <Calendar className="h-3 w-3 mr-1" />
+                          {format(new Date(post.published_at), 'MMM d, yyyy')}
+                        </div>
+                      )}
+                      {post.reading_time_minutes > 0 && (
+                        <div className="flex items-center">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {formatReadingTime(post.reading_time_minutes)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {user?.id === series.user_id && (
+        <SeriesDialog
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          userId={user.id}
+          series={series}
+        />
+      )}
+    </Layout>
+  );
+};
+
+export default Series;
@@ -0,0 +1,97 @@
+-- Full-text search for posts
+ALTER TABLE public.posts ADD COLUMN search_vector tsvector;
+
+-- Build the weighted document: title ranks above excerpt and tags, which rank above content
+CREATE OR REPLACE FUNCTION public.posts_search_document(
+  title TEXT,
+  excerpt TEXT,
+  tags TEXT[],
+  content TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(tags, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_posts_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.posts_search_document(NEW.title, NEW.excerpt, NEW.tags, NEW.content);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_posts_search_vector
+  BEFORE INSERT OR UPDATE OF title, excerpt, tags, content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_posts_search_vector();
+
+-- Backfill existing posts without touching updated_at
+ALTER TABLE public.posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE public.posts
+SET search_vector = public.posts_search_document(title, excerpt, tags, content);
+ALTER TABLE public.posts ENABLE TRIGGER update_posts_updated_at;
+
+CREATE INDEX posts_search_vector_idx ON public.posts USING GIN (search_vector);
+
+-- Ranked search over published posts. Highlighted terms in the snippet are
+-- wrapped in chr(2)/chr(3) so the client can render them without trusting HTML.
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  excerpt TEXT,
+  featured_image_url TEXT,
+  category_id UUID,
+  tags TEXT[],
+  published_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.excerpt,
+    p.featured_image_url,
+    p.category_id,
+    p.tags,
+    p.published_at,
+    p.user_id,
+    ts_rank_cd(p.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(p.excerpt, '') || ' ' || coalesce(p.content, ''),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'
+    ) AS snippet
+  FROM public.posts p, query
+  WHERE p.status = 'published'
+    AND p.search_vector @@ query.tsq
+    AND (category IS NULL OR p.category_id = category)
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
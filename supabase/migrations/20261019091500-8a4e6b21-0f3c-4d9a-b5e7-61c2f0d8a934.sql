@@ -0,0 +1,25 @@
+-- Keyset pagination for the home feed orders by (published_at, id)
+CREATE INDEX posts_published_feed_idx
+  ON public.posts (published_at DESC, id DESC)
+  WHERE status = 'published';
+
+CREATE INDEX posts_category_published_feed_idx
+  ON public.posts (category_id, published_at DESC, id DESC)
+  WHERE status = 'published';
+
+-- Total number of search matches, for numbered pagination of search results
+CREATE OR REPLACE FUNCTION public.count_search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.posts p
+  WHERE p.status = 'published'
+    AND p.search_vector @@ websearch_to_tsquery('english', search_query)
+    AND (category IS NULL OR p.category_id = category);
+$$;
@@ -0,0 +1,124 @@
+-- Denormalized like and comment counters on posts
+ALTER TABLE public.posts
+  ADD COLUMN likes_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN comments_count INTEGER NOT NULL DEFAULT 0;
+
+-- Counter updates should not look like edits to the post
+DROP TRIGGER update_posts_updated_at ON public.posts;
+
+CREATE TRIGGER update_posts_updated_at
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW
+  WHEN (
+    OLD.likes_count IS NOT DISTINCT FROM NEW.likes_count
+    AND OLD.comments_count IS NOT DISTINCT FROM NEW.comments_count
+  )
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Security definer: likers and commenters cannot update other users' posts under RLS
+CREATE OR REPLACE FUNCTION public.update_post_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET likes_count = likes_count + 1 WHERE id = NEW.post_id;
+    RETURN NEW;
+  ELSE
+    UPDATE public.posts SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.post_id;
+    RETURN OLD;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    RETURN NEW;
+  ELSE
+    UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+    RETURN OLD;
+  END IF;
+END;
+$$;
+
+CREATE TRIGGER update_post_likes_count
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_likes_count();
+
+CREATE TRIGGER update_post_comments_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_comments_count();
+
+-- Backfill counters for existing posts
+UPDATE public.posts p
+SET
+  likes_count = (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id),
+  comments_count = (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id);
+
+-- Include the counters in search results
+DROP FUNCTION public.search_posts(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  excerpt TEXT,
+  featured_image_url TEXT,
+  category_id UUID,
+  tags TEXT[],
+  published_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.excerpt,
+    p.featured_image_url,
+    p.category_id,
+    p.tags,
+    p.published_at,
+    p.user_id,
+    p.likes_count,
+    p.comments_count,
+    ts_rank_cd(p.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(p.excerpt, '') || ' ' || coalesce(p.content, ''),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'
+    ) AS snippet
+  FROM public.posts p, query
+  WHERE p.status = 'published'
+    AND p.search_vector @@ query.tsq
+    AND (category IS NULL OR p.category_id = category)
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
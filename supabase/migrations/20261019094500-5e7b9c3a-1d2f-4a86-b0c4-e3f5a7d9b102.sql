@@ -0,0 +1,28 @@
+-- Threaded comment replies
+ALTER TABLE public.comments
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX comments_post_id_idx ON public.comments (post_id);
+CREATE INDEX comments_parent_id_idx ON public.comments (parent_id);
+
+-- A reply must belong to the same post as the comment it answers
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE id = NEW.parent_id AND post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'Parent comment does not belong to this post';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_comment_parent
+  BEFORE INSERT OR UPDATE OF parent_id, post_id ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_comment_parent();
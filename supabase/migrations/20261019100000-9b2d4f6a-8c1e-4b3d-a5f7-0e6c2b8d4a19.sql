@@ -0,0 +1,96 @@
+-- Comments are only deleted through delete_comment, which lets post authors
+-- moderate their posts and keeps replies in place
+DROP POLICY "Users can delete their own comments" ON public.comments;
+
+-- A deleted comment that still has replies keeps its place in the thread with
+-- its body blanked, and is shown as "[deleted]"
+ALTER TABLE public.comments
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Removing a comment's row never takes other people's replies with it
+ALTER TABLE public.comments
+  DROP CONSTRAINT comments_parent_id_fkey,
+  ADD CONSTRAINT comments_parent_id_fkey
+    FOREIGN KEY (parent_id) REFERENCES public.comments(id) ON DELETE SET NULL;
+
+-- Deleted placeholders don't count towards a post's comments
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.deleted_at IS NULL THEN
+      UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    END IF;
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = NEW.post_id;
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    END IF;
+    RETURN NEW;
+  ELSE
+    IF OLD.deleted_at IS NULL THEN
+      UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+    END IF;
+    RETURN OLD;
+  END IF;
+END;
+$$;
+
+DROP TRIGGER update_post_comments_count ON public.comments;
+
+CREATE TRIGGER update_post_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_post_comments_count();
+
+-- Deletes a comment as its author or the post's author. Comments with replies
+-- are soft-deleted; leaf comments are removed, along with any soft-deleted
+-- ancestors they were the last reply to.
+CREATE OR REPLACE FUNCTION public.delete_comment(target_comment UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_id UUID := target_comment;
+  parent_comment UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.comments c
+    JOIN public.posts p ON p.id = c.post_id
+    WHERE c.id = target_comment
+      AND (c.user_id = auth.uid() OR p.user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.comments WHERE parent_id = target_comment) THEN
+    UPDATE public.comments
+    SET deleted_at = now(), content = ''
+    WHERE id = target_comment;
+    RETURN;
+  END IF;
+
+  LOOP
+    DELETE FROM public.comments
+    WHERE id = current_id
+    RETURNING parent_id INTO parent_comment;
+
+    EXIT WHEN parent_comment IS NULL OR EXISTS (
+      SELECT 1 FROM public.comments WHERE parent_id = parent_comment
+    ) OR NOT EXISTS (
+      SELECT 1 FROM public.comments WHERE id = parent_comment AND deleted_at IS NOT NULL
+    );
+
+    current_id := parent_comment;
+  END LOOP;
+END;
+$$;
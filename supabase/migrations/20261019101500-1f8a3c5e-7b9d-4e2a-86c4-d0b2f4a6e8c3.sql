@@ -0,0 +1,32 @@
+-- Storage bucket for post images (featured and inline)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'post-images',
+  'post-images',
+  true,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Each user uploads into a folder named after their user id
+CREATE POLICY "Post images are viewable by everyone"
+ON storage.objects FOR SELECT USING (bucket_id = 'post-images');
+
+CREATE POLICY "Users can upload their own post images"
+ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'post-images'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can update their own post images"
+ON storage.objects FOR UPDATE USING (
+  bucket_id = 'post-images'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own post images"
+ON storage.objects FOR DELETE USING (
+  bucket_id = 'post-images'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,52 @@
+-- Uploaded images, tracked for the media library
+CREATE TABLE public.media_assets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  size_bytes BIGINT,
+  width INTEGER,
+  height INTEGER,
+  alt_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX media_assets_user_id_idx ON public.media_assets (user_id, created_at DESC);
+
+ALTER TABLE public.media_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own media"
+ON public.media_assets FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own media"
+ON public.media_assets FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own media"
+ON public.media_assets FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own media"
+ON public.media_assets FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_media_assets_updated_at
+  BEFORE UPDATE ON public.media_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Register images uploaded before the library existed
+INSERT INTO public.media_assets (user_id, storage_path, file_name, mime_type, size_bytes, created_at)
+SELECT
+  (storage.foldername(o.name))[1]::uuid,
+  o.name,
+  storage.filename(o.name),
+  o.metadata->>'mimetype',
+  (o.metadata->>'size')::bigint,
+  o.created_at
+FROM storage.objects o
+WHERE o.bucket_id = 'post-images'
+  AND EXISTS (
+    SELECT 1 FROM auth.users u
+    WHERE u.id::text = (storage.foldername(o.name))[1]
+  )
+ON CONFLICT (storage_path) DO NOTHING;
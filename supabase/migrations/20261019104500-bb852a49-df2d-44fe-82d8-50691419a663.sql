@@ -0,0 +1,41 @@
+-- Snapshots of a post's editable fields, written on every explicit save
+CREATE TABLE public.post_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  excerpt TEXT,
+  content TEXT,
+  tags TEXT[],
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX post_revisions_post_id_idx ON public.post_revisions (post_id, created_at DESC);
+
+ALTER TABLE public.post_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are immutable, so there are no update or delete policies
+CREATE POLICY "Post authors can view revisions of their posts"
+ON public.post_revisions FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_revisions.post_id
+      AND posts.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Post authors can add revisions to their posts"
+ON public.post_revisions FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE posts.id = post_revisions.post_id
+      AND posts.user_id = auth.uid()
+  )
+);
+
+-- Start every existing post's history with its current state
+INSERT INTO public.post_revisions (post_id, user_id, title, excerpt, content, tags, category_id, created_at)
+SELECT id, user_id, title, excerpt, content, tags, category_id, updated_at
+FROM public.posts;
@@ -0,0 +1,55 @@
+-- Allow posts to be scheduled for a future publish time
+ALTER TABLE public.posts DROP CONSTRAINT posts_status_check;
+ALTER TABLE public.posts ADD CONSTRAINT posts_status_check
+  CHECK (status IN ('draft', 'scheduled', 'published'));
+
+ALTER TABLE public.posts ADD CONSTRAINT posts_scheduled_at_check
+  CHECK (status <> 'scheduled' OR published_at IS NOT NULL);
+
+CREATE INDEX posts_scheduled_idx ON public.posts (published_at)
+  WHERE status = 'scheduled';
+
+-- Scheduled posts stay private until their publish time, even if the job
+-- that flips them to published has not run yet
+DROP POLICY "Published posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone"
+ON public.posts FOR SELECT USING (
+  status = 'published'
+  OR (status = 'scheduled' AND published_at <= now())
+  OR auth.uid() = user_id
+);
+
+-- Publish every scheduled post whose time has come; returns how many were published
+CREATE OR REPLACE FUNCTION public.publish_scheduled_posts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  published_count INTEGER;
+BEGIN
+  UPDATE public.posts
+  SET status = 'published'
+  WHERE status = 'scheduled'
+    AND published_at <= now();
+
+  GET DIAGNOSTICS published_count = ROW_COUNT;
+  RETURN published_count;
+END;
+$$;
+
+-- Only the scheduler runs the job; clients must not be able to call it
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_posts() FROM PUBLIC, anon, authenticated;
+
+-- Run the job every minute. Locally it can also be triggered by hand with
+-- SELECT public.publish_scheduled_posts();
+-- pg_cron can only be installed in pg_catalog; its jobs live in the cron schema
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  'SELECT public.publish_scheduled_posts()'
+);
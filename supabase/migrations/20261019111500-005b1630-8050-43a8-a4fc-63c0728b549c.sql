@@ -0,0 +1,171 @@
+-- Slugs a post used to be published under, so old links keep working
+CREATE TABLE public.post_slug_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX post_slug_history_post_id_idx ON public.post_slug_history (post_id);
+
+ALTER TABLE public.post_slug_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Slug history is viewable by everyone"
+ON public.post_slug_history FOR SELECT USING (true);
+
+-- Remember the previous slug of a published post when it changes, and free
+-- up a slug from the history once a post takes it as its current slug
+CREATE OR REPLACE FUNCTION public.track_post_slug_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.post_slug_history WHERE slug = NEW.slug;
+
+  IF TG_OP = 'UPDATE' AND OLD.slug <> NEW.slug AND OLD.status = 'published' THEN
+    INSERT INTO public.post_slug_history (post_id, slug)
+    VALUES (NEW.id, OLD.slug)
+    ON CONFLICT (slug) DO UPDATE SET post_id = EXCLUDED.post_id, created_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_post_slug_history
+  AFTER INSERT OR UPDATE OF slug ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_post_slug_history();
+
+-- Find a post by its current slug, an old slug or its id. Runs with the
+-- caller's permissions so drafts stay private. The lookup is only cast when it
+-- looks like a UUID, so the id match uses the primary key and slugs don't error.
+CREATE OR REPLACE FUNCTION public.resolve_post_slug(lookup TEXT)
+RETURNS TABLE (
+  id UUID,
+  slug TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT matches.id, matches.slug
+  FROM (
+    SELECT p.id, p.slug, 1 AS priority
+    FROM public.posts p
+    WHERE p.slug = lookup
+    UNION ALL
+    SELECT p.id, p.slug, 2
+    FROM public.posts p
+    WHERE p.id = CASE
+      WHEN lookup ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN lookup::uuid
+    END
+    UNION ALL
+    SELECT p.id, p.slug, 3
+    FROM public.post_slug_history h
+    JOIN public.posts p ON p.id = h.post_id
+    WHERE h.slug = lookup
+  ) matches
+  ORDER BY matches.priority
+  LIMIT 1;
+$$;
+
+-- Slug uniqueness has to see every post, including other authors' drafts
+CREATE OR REPLACE FUNCTION public.is_slug_available(candidate TEXT, current_post_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE slug = candidate
+      AND id IS DISTINCT FROM current_post_id
+  );
+$$;
+
+-- Drop the timestamp suffix from existing slugs where the clean slug is free.
+-- The old slugs are recorded by the trigger above.
+ALTER TABLE public.posts DISABLE TRIGGER update_posts_updated_at;
+WITH candidates AS (
+  SELECT
+    id,
+    regexp_replace(slug, '-[0-9]{13}$', '') AS clean_slug,
+    row_number() OVER (
+      PARTITION BY regexp_replace(slug, '-[0-9]{13}$', '')
+      ORDER BY created_at
+    ) AS position
+  FROM public.posts
+  WHERE slug ~ '-[0-9]{13}$'
+)
+UPDATE public.posts p
+SET slug = c.clean_slug
+FROM candidates c
+WHERE p.id = c.id
+  AND c.position = 1
+  AND c.clean_slug <> ''
+  AND NOT EXISTS (SELECT 1 FROM public.posts other WHERE other.slug = c.clean_slug);
+ALTER TABLE public.posts ENABLE TRIGGER update_posts_updated_at;
+
+-- Search results link to posts by slug
+DROP FUNCTION public.search_posts(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  featured_image_url TEXT,
+  category_id UUID,
+  tags TEXT[],
+  published_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.slug,
+    p.excerpt,
+    p.featured_image_url,
+    p.category_id,
+    p.tags,
+    p.published_at,
+    p.user_id,
+    p.likes_count,
+    p.comments_count,
+    ts_rank_cd(p.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(p.excerpt, '') || ' ' || coalesce(p.content, ''),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'
+    ) AS snippet
+  FROM public.posts p, query
+  WHERE p.status = 'published'
+    AND p.search_vector @@ query.tsq
+    AND (category IS NULL OR p.category_id = category)
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
@@ -0,0 +1,106 @@
+-- Length of a post as readers see it. Computed by the app on every save from
+-- the Markdown (see src/lib/readingStats.ts), so the database only stores it.
+ALTER TABLE public.posts
+  ADD COLUMN word_count INTEGER NOT NULL DEFAULT 0 CHECK (word_count >= 0),
+  ADD COLUMN reading_time_minutes INTEGER NOT NULL DEFAULT 0 CHECK (reading_time_minutes >= 0);
+
+-- Approximate the app's counts for existing posts: drop fenced code and HTML,
+-- count images at 12 seconds each and words at 230 per minute. Each post gets
+-- the exact figures the next time it is saved.
+ALTER TABLE public.posts DISABLE TRIGGER update_posts_updated_at;
+WITH stripped AS (
+  SELECT
+    id,
+    regexp_replace(
+      regexp_replace(coalesce(content, ''), '```.*?```', ' ', 'g'),
+      '<[^>]*>', ' ', 'g'
+    ) AS body
+  FROM public.posts
+),
+stats AS (
+  SELECT
+    id,
+    (SELECT count(*) FROM regexp_matches(body, '!\[[^]]*\]\([^)]*\)', 'g')) AS images,
+    (
+      SELECT count(*)
+      FROM regexp_split_to_table(
+        regexp_replace(regexp_replace(body, '!\[[^]]*\]\([^)]*\)', ' ', 'g'), '\]\([^)]*\)', ']', 'g'),
+        '\s+'
+      ) AS word
+      WHERE word ~ '[[:alnum:]]'
+    ) AS words
+  FROM stripped
+)
+UPDATE public.posts p
+SET
+  word_count = stats.words,
+  reading_time_minutes = CASE
+    WHEN stats.words = 0 AND stats.images = 0 THEN 0
+    ELSE greatest(1, round(stats.words / 230.0 + stats.images * 12 / 60.0))
+  END
+FROM stats
+WHERE stats.id = p.id;
+ALTER TABLE public.posts ENABLE TRIGGER update_posts_updated_at;
+
+-- Search results are shown as cards, which display the reading time
+DROP FUNCTION public.search_posts(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  featured_image_url TEXT,
+  category_id UUID,
+  tags TEXT[],
+  published_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  word_count INTEGER,
+  reading_time_minutes INTEGER,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.slug,
+    p.excerpt,
+    p.featured_image_url,
+    p.category_id,
+    p.tags,
+    p.published_at,
+    p.user_id,
+    p.likes_count,
+    p.comments_count,
+    p.word_count,
+    p.reading_time_minutes,
+    ts_rank_cd(p.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(p.excerpt, '') || ' ' || coalesce(p.content, ''),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'
+    ) AS snippet
+  FROM public.posts p, query
+  WHERE p.status = 'published'
+    AND p.search_vector @@ query.tsq
+    AND (category IS NULL OR p.category_id = category)
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
@@ -0,0 +1,62 @@
+-- Whether the excerpt was generated from the content rather than written by
+-- the author. The editor leaves generated excerpts empty so they keep
+-- following the content, and regenerates them on save.
+ALTER TABLE public.posts
+  ADD COLUMN excerpt_generated BOOLEAN NOT NULL DEFAULT false;
+
+-- One-off: regenerate excerpts that were filled in automatically from the raw
+-- Markdown (the first 150 characters of the content), using the same rules as
+-- generateExcerpt in src/lib/excerpts.ts. Excerpts written by authors are kept.
+CREATE FUNCTION pg_temp.markdown_excerpt(content TEXT, max_length INTEGER DEFAULT 160)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  body TEXT := coalesce(content, '');
+  head TEXT;
+  sentence TEXT;
+BEGIN
+  -- Blocks that don't read as a summary: code, HTML, headings, tables, images
+  body := regexp_replace(body, '```.*?```', ' ', 'g');
+  body := regexp_replace(body, '~~~.*?~~~', ' ', 'g');
+  body := regexp_replace(body, '<[^>]*>', ' ', 'g');
+  body := regexp_replace(body, '^[ \t]*#{1,6}([ \t].*)?$', ' ', 'gn');
+  body := regexp_replace(body, '^[ \t]*\|.*$', ' ', 'gn');
+  body := regexp_replace(body, '^[ \t]*([-*_][ \t]*){3,}$', ' ', 'gn');
+  body := regexp_replace(body, '!\[[^]]*\]\([^)]*\)', ' ', 'g');
+
+  -- Syntax around text that is kept: links, quotes, list markers, emphasis
+  body := regexp_replace(body, '\[([^]]*)\]\([^)]*\)', '\1', 'g');
+  body := regexp_replace(body, '^[ \t]*(>[ \t]?)+', '', 'gn');
+  body := regexp_replace(body, '^[ \t]*([-*+]|[0-9]+\.)[ \t]+(\[[ xX]\][ \t]+)?', '', 'gn');
+  body := regexp_replace(body, '\*+|~~|`+', '', 'g');
+  body := regexp_replace(body, '(?<![[:alnum:]])_+|_+(?![[:alnum:]])', '', 'g');
+
+  body := btrim(regexp_replace(body, '[[:space:]]+', ' ', 'g'));
+  IF char_length(body) <= max_length THEN
+    RETURN body;
+  END IF;
+
+  -- Cut at the last sentence that keeps at least half the length, otherwise
+  -- at the last whole word
+  head := left(body, max_length + 1);
+  sentence := substring(head FROM '^(.*[.!?]) ');
+  IF sentence IS NOT NULL AND char_length(sentence) >= max_length / 2 THEN
+    body := sentence;
+  ELSE
+    body := coalesce(substring(head FROM '^(.*) '), left(body, max_length));
+  END IF;
+
+  RETURN regexp_replace(body, '[[:space:].,;:!?–—-]+$', '') || '…';
+END;
+$$;
+
+ALTER TABLE public.posts DISABLE TRIGGER update_posts_updated_at;
+UPDATE public.posts
+SET excerpt = pg_temp.markdown_excerpt(content), excerpt_generated = true
+WHERE coalesce(content, '') <> ''
+  AND (excerpt IS NULL OR excerpt = '' OR excerpt = left(content, 150));
+ALTER TABLE public.posts ENABLE TRIGGER update_posts_updated_at;
+
+DROP FUNCTION pg_temp.markdown_excerpt(TEXT, INTEGER);
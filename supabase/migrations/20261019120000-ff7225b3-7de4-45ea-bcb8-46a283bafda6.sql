@@ -0,0 +1,177 @@
+-- Ordered groups of posts by one author, e.g. multi-part tutorials
+CREATE TABLE public.series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX series_user_id_idx ON public.series (user_id);
+
+ALTER TABLE public.series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Series are viewable by everyone"
+ON public.series FOR SELECT USING (true);
+
+CREATE POLICY "Users can create their own series"
+ON public.series FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own series"
+ON public.series FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own series"
+ON public.series FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_series_updated_at
+  BEFORE UPDATE ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Positions are 1-based and contiguous within a series. The uniqueness check is
+-- deferred so set_post_series can shift several parts in one statement.
+ALTER TABLE public.posts
+  ADD COLUMN series_id UUID REFERENCES public.series(id),
+  ADD COLUMN series_position INTEGER CHECK (series_position > 0),
+  ADD CONSTRAINT posts_series_position_key UNIQUE (series_id, series_position) DEFERRABLE INITIALLY DEFERRED,
+  ADD CONSTRAINT posts_series_position_check CHECK ((series_id IS NULL) = (series_position IS NULL));
+
+-- A post can only join a series owned by its author
+CREATE OR REPLACE FUNCTION public.check_post_series_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.series_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.series
+    WHERE series.id = NEW.series_id
+      AND series.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Posts can only be added to a series by the same author';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_post_series_owner
+  BEFORE INSERT OR UPDATE OF series_id, user_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_post_series_owner();
+
+-- Deleting a series keeps its posts as standalone posts
+CREATE OR REPLACE FUNCTION public.detach_series_posts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.posts
+  SET series_id = NULL, series_position = NULL
+  WHERE series_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER detach_series_posts
+  BEFORE DELETE ON public.series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.detach_series_posts();
+
+-- Renumbers the parts left behind when a post is deleted or leaves its
+-- series, however that happens, so positions stay contiguous
+CREATE OR REPLACE FUNCTION public.close_series_gap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.series_id IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.series_id IS NOT DISTINCT FROM OLD.series_id) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.posts p
+  SET series_position = parts.position
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY series_position) AS position
+    FROM public.posts
+    WHERE series_id = OLD.series_id
+  ) parts
+  WHERE p.id = parts.id AND p.series_position <> parts.position;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER close_series_gap
+  AFTER DELETE OR UPDATE OF series_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_series_gap();
+
+-- Moves a post into a series at a position (the end when omitted), shifting
+-- later parts down; close_series_gap renumbers any series it leaves. A null
+-- series removes the post from its series. Returns the post's final position.
+CREATE OR REPLACE FUNCTION public.set_post_series(
+  target_post UUID,
+  target_series UUID DEFAULT NULL,
+  target_position INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  current_series UUID;
+  end_position INTEGER;
+  final_position INTEGER;
+BEGIN
+  SELECT series_id INTO current_series
+  FROM public.posts
+  WHERE id = target_post AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  IF current_series IS NOT NULL THEN
+    UPDATE public.posts
+    SET series_id = NULL, series_position = NULL
+    WHERE id = target_post;
+  END IF;
+
+  IF target_series IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.series
+    WHERE id = target_series AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  SELECT coalesce(max(series_position), 0) + 1 INTO end_position
+  FROM public.posts
+  WHERE series_id = target_series;
+  final_position := least(greatest(coalesce(target_position, end_position), 1), end_position);
+
+  UPDATE public.posts
+  SET series_position = series_position + 1
+  WHERE series_id = target_series AND series_position >= final_position;
+
+  UPDATE public.posts
+  SET series_id = target_series, series_position = final_position
+  WHERE id = target_post;
+
+  RETURN final_position;
+END;
+$$;
@@ -0,0 +1,236 @@
+-- Everyone who can edit a post. The post's creator is its owner; co-authors
+-- are invited by the owner and can edit once they accept (accepted_at set).
+-- posts.user_id stays the owner, so existing ownership checks keep working.
+CREATE TABLE public.post_authors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'co-author')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (post_id, user_id),
+  CHECK (role = 'co-author' OR accepted_at IS NOT NULL)
+);
+
+CREATE INDEX post_authors_user_id_idx ON public.post_authors (user_id);
+CREATE UNIQUE INDEX post_authors_one_owner_idx ON public.post_authors (post_id) WHERE role = 'owner';
+
+INSERT INTO public.post_authors (post_id, user_id, role, accepted_at, created_at)
+SELECT id, user_id, 'owner', created_at, created_at
+FROM public.posts;
+
+-- Whether the current user is an accepted author (or, optionally, an invitee)
+-- of a post. Security definer so policies on posts and post_authors can use it
+-- without recursing into each other.
+CREATE OR REPLACE FUNCTION public.is_post_author(target_post UUID, include_invited BOOLEAN DEFAULT false)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.post_authors
+    WHERE post_id = target_post
+      AND user_id = auth.uid()
+      AND (accepted_at IS NOT NULL OR include_invited)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_post_owner(target_post UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.posts
+    WHERE id = target_post AND user_id = auth.uid()
+  );
+$$;
+
+-- Every new post starts with its creator as owner
+CREATE OR REPLACE FUNCTION public.add_post_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.post_authors (post_id, user_id, role, accepted_at)
+  VALUES (NEW.id, NEW.user_id, 'owner', now());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_post_owner
+  AFTER INSERT ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_post_owner();
+
+-- Co-authors can update posts, so ownership can't be changed through an update
+CREATE OR REPLACE FUNCTION public.prevent_post_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id THEN
+    RAISE EXCEPTION 'The owner of a post cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_post_owner_change
+  BEFORE UPDATE OF user_id ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_post_owner_change();
+
+ALTER TABLE public.post_authors ENABLE ROW LEVEL SECURITY;
+
+-- Bylines of visible posts are public; pending invitations are only seen by
+-- the invitee and the post's authors. Rows are written by the trigger above
+-- and the invitation functions below, so there are no insert or update policies.
+CREATE POLICY "Post authors are viewable with their posts"
+ON public.post_authors FOR SELECT USING (
+  user_id = auth.uid()
+  OR public.is_post_author(post_id)
+  OR (
+    accepted_at IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_authors.post_id)
+  )
+);
+
+-- Owners remove co-authors; co-authors can leave or decline
+CREATE POLICY "Co-authors can be removed by the owner or themselves"
+ON public.post_authors FOR DELETE USING (
+  role = 'co-author'
+  AND (user_id = auth.uid() OR public.is_post_owner(post_id))
+);
+
+-- Co-authors can read and edit a post, but only its owner can delete it.
+-- Invitees can read the post they've been invited to before accepting.
+DROP POLICY "Published posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Published posts are viewable by everyone"
+ON public.posts FOR SELECT USING (
+  status = 'published'
+  OR (status = 'scheduled' AND published_at <= now())
+  OR auth.uid() = user_id
+  OR public.is_post_author(id, true)
+);
+
+DROP POLICY "Users can update their own posts" ON public.posts;
+
+CREATE POLICY "Authors can update their posts"
+ON public.posts FOR UPDATE USING (
+  auth.uid() = user_id
+  OR public.is_post_author(id)
+);
+
+-- Co-authors edit a post's content; its URL, status, schedule, series and
+-- ownership stay with the owner. Only checked for co-authors, so likes,
+-- comments and scheduled publishing keep updating posts as before.
+CREATE OR REPLACE FUNCTION public.restrict_coauthor_post_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+    AND public.is_post_author(OLD.id)
+    AND (NEW.user_id, NEW.slug, NEW.status, NEW.published_at, NEW.series_id, NEW.series_position)
+      IS DISTINCT FROM (OLD.user_id, OLD.slug, OLD.status, OLD.published_at, OLD.series_id, OLD.series_position)
+  THEN
+    RAISE EXCEPTION 'Only the owner of a post can change its URL, status, schedule or series';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restrict_coauthor_post_update
+  BEFORE UPDATE ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_coauthor_post_update();
+
+DROP POLICY "Post authors can view revisions of their posts" ON public.post_revisions;
+DROP POLICY "Post authors can add revisions to their posts" ON public.post_revisions;
+
+CREATE POLICY "Post authors can view revisions of their posts"
+ON public.post_revisions FOR SELECT USING (public.is_post_author(post_id));
+
+CREATE POLICY "Post authors can add revisions to their posts"
+ON public.post_revisions FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_post_author(post_id)
+);
+
+-- Invite a co-author by email address or display name. Only the owner can
+-- invite. Emails are matched exactly and never returned; a display name must
+-- match exactly one user (case-insensitively). Unknown and already-invited
+-- people succeed silently, so the function can't be used to find out whether
+-- an email address has an account.
+CREATE OR REPLACE FUNCTION public.invite_post_coauthor(target_post UUID, invitee TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitee_id UUID;
+  match_count INTEGER;
+BEGIN
+  IF NOT public.is_post_owner(target_post) THEN
+    RAISE EXCEPTION 'Only the owner of a post can invite co-authors';
+  END IF;
+
+  IF position('@' IN invitee) > 0 THEN
+    SELECT id INTO invitee_id FROM auth.users WHERE lower(email) = lower(btrim(invitee));
+  ELSE
+    SELECT count(*), min(user_id::text)::uuid INTO match_count, invitee_id
+    FROM public.profiles
+    WHERE lower(display_name) = lower(btrim(invitee));
+
+    IF match_count > 1 THEN
+      RAISE EXCEPTION 'Several people are called "%". Invite them by email instead.', btrim(invitee);
+    END IF;
+  END IF;
+
+  IF invitee_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.post_authors (post_id, user_id, role, invited_by)
+  VALUES (target_post, invitee_id, 'co-author', auth.uid())
+  ON CONFLICT (post_id, user_id) DO NOTHING;
+END;
+$$;
+
+-- Accept or decline an invitation addressed to the current user
+CREATE OR REPLACE FUNCTION public.respond_to_coauthor_invitation(invitation UUID, accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF accept THEN
+    UPDATE public.post_authors
+    SET accepted_at = now()
+    WHERE id = invitation AND user_id = auth.uid() AND accepted_at IS NULL;
+  ELSE
+    DELETE FROM public.post_authors
+    WHERE id = invitation AND user_id = auth.uid() AND accepted_at IS NULL;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+END;
+$$;
@@ -0,0 +1,94 @@
+-- Secret links that let anyone holding the token read a post before it is
+-- published. Tokens are only readable by the post's authors; readers go
+-- through get_post_preview, so the posts policies stay as they are.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.post_preview_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX post_preview_tokens_post_id_idx ON public.post_preview_tokens (post_id);
+
+ALTER TABLE public.post_preview_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Post authors can view preview links"
+ON public.post_preview_tokens FOR SELECT USING (public.is_post_author(post_id));
+
+CREATE POLICY "Post authors can create preview links"
+ON public.post_preview_tokens FOR INSERT WITH CHECK (
+  auth.uid() = created_by AND public.is_post_author(post_id)
+);
+
+-- Links are revoked by setting revoked_at rather than deleted. Only live links
+-- can be updated and the result must stay revoked, so a revoked link can't be
+-- brought back or have its expiry extended.
+CREATE POLICY "Post authors can revoke preview links"
+ON public.post_preview_tokens FOR UPDATE
+USING (revoked_at IS NULL AND public.is_post_author(post_id))
+WITH CHECK (revoked_at IS NOT NULL AND public.is_post_author(post_id));
+
+-- The post behind a live (unrevoked, unexpired) preview token, with what the
+-- preview page needs to render it. Security definer so readers need neither
+-- an account nor access to the draft under the posts policies.
+CREATE OR REPLACE FUNCTION public.get_post_preview(preview_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  content TEXT,
+  featured_image_url TEXT,
+  tags TEXT[],
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  word_count INTEGER,
+  reading_time_minutes INTEGER,
+  category_name TEXT,
+  authors JSONB,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.slug,
+    p.content,
+    p.featured_image_url,
+    p.tags,
+    p.status,
+    p.created_at,
+    p.updated_at,
+    p.word_count,
+    p.reading_time_minutes,
+    c.name,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'userId', pa.user_id,
+          'name', COALESCE(pr.display_name, 'Anonymous'),
+          'avatarUrl', pr.avatar_url
+        )
+        ORDER BY pa.role = 'owner' DESC, pa.accepted_at
+      )
+      FROM public.post_authors pa
+      LEFT JOIN public.profiles pr ON pr.user_id = pa.user_id
+      WHERE pa.post_id = p.id AND pa.accepted_at IS NOT NULL
+    ), '[]'::jsonb),
+    t.expires_at
+  FROM public.post_preview_tokens t
+  JOIN public.posts p ON p.id = t.post_id
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  WHERE t.token = preview_token
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > now());
+$$;
@@ -0,0 +1,93 @@
+-- Readable text of a post's Markdown, for search snippets. Drops fenced code,
+-- HTML and images, keeps link text and removes heading, quote, list and
+-- emphasis markers.
+CREATE OR REPLACE FUNCTION public.markdown_to_plain_text(markdown TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(
+            regexp_replace(
+              regexp_replace(coalesce(markdown, ''), '```.*?```', ' ', 'g'),
+              '<[^>]*>', ' ', 'g'
+            ),
+            '!\[[^]]*\]\([^)]*\)', ' ', 'g'
+          ),
+          '\[([^]]*)\]\([^)]*\)', '\1', 'g'
+        ),
+        '^[ \t]*(#{1,6}|>|[-*+]|[0-9]+\.)[ \t]+', '', 'gn'
+      ),
+      '[*`~]+|\m_+|_+\M', '', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Search snippets were highlighted over the raw Markdown, so results showed
+-- fences, link targets and emphasis markers
+DROP FUNCTION public.search_posts(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_posts(
+  search_query TEXT,
+  category UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  featured_image_url TEXT,
+  category_id UUID,
+  tags TEXT[],
+  published_at TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  word_count INTEGER,
+  reading_time_minutes INTEGER,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    p.id,
+    p.title,
+    p.slug,
+    p.excerpt,
+    p.featured_image_url,
+    p.category_id,
+    p.tags,
+    p.published_at,
+    p.user_id,
+    p.likes_count,
+    p.comments_count,
+    p.word_count,
+    p.reading_time_minutes,
+    ts_rank_cd(p.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(p.excerpt, '') || ' ' || public.markdown_to_plain_text(p.content),
+      query.tsq,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2'
+    ) AS snippet
+  FROM public.posts p, query
+  WHERE p.status = 'published'
+    AND p.search_vector @@ query.tsq
+    AND (category IS NULL OR p.category_id = category)
+  ORDER BY rank DESC, p.published_at DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;